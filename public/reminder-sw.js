@@ -0,0 +1,24 @@
+// Loaded into the generated service worker. The app owns the task list, so
+// notification buttons are passed back to an open window, or open one with
+// ?reminder=<action>&task=<id> when the app is closed.
+self.addEventListener('notificationclick', (event) => {
+  const todoId = event.notification.data && event.notification.data.todoId;
+  if (!todoId) return;
+
+  const action = event.action || 'open';
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+    if (windows.length > 0) {
+      windows[0].postMessage({ type: 'reminder-action', action, todoId });
+      return action === 'open' ? windows[0].focus() : undefined;
+    }
+
+    const url = new URL(self.registration.scope);
+    url.searchParams.set('reminder', action);
+    url.searchParams.set('task', todoId);
+    return self.clients.openWindow(url.href);
+  })());
+});
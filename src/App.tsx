@@ -1,67 +1,179 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { VoiceButton } from './components/VoiceButton';
 import { TodoList } from './components/TodoList';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { VoiceCommandDiscovery } from './components/VoiceCommandDiscovery';
 import { AccessibilityIndicators } from './components/AccessibilityIndicators';
-import { VoiceSettingsPanel, VoiceSettings } from './components/VoiceSettingsPanel';
+import { VoiceSettingsPanel, DEFAULT_VOICE_SETTINGS, loadVoiceSettings, saveVoiceSettings } from './components/VoiceSettingsPanel';
 import { MobileAccessibility } from './components/MobileAccessibility';
-import { MobileVoiceSettings } from './components/MobileVoiceSettings';
+import { MobileVoiceSettings, loadMobileVoiceSettings, saveMobileVoiceSettings } from './components/MobileVoiceSettings';
+import { BulkAddSession } from './components/BulkAddSession';
+import { VoicePrompt } from './components/VoicePrompt';
+import { UndoToast } from './components/UndoToast';
+import { HandsFreeIndicator } from './components/HandsFreeIndicator';
+import { ReminderBanner } from './components/ReminderBanner';
+import { TaskDetail } from './components/TaskDetail';
+import { CommandBar } from './components/CommandBar';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
-import { useTodos } from './hooks/useTodos';
-import { parseVoiceCommand, speak, getTaskSummary } from './utils/speech';
+import { useTodos, CONFIRMATION_TIMEOUT, READING_TIMEOUT } from './hooks/useTodos';
+import { useListView } from './hooks/useListView';
+import { useHandsFree } from './hooks/useHandsFree';
+import { useReminders } from './hooks/useReminders';
+import { VoiceSettings } from './types';
+import { speak, getTaskSummary } from './utils/speech';
+import { getHelpExamples, AppSettings } from './utils/commands';
+import { getSnoozeTime, ReminderActionMessage } from './utils/reminders';
 import { Sparkles, Volume2, VolumeX, HelpCircle, Settings } from 'lucide-react';
-import { MobileUtils, VoiceHaptics } from './utils/haptic';
+import { HapticFeedback, MobileUtils, VoiceHaptics } from './utils/haptic';
 
 const App: React.FC = () => {
   const [showHelp, setShowHelp] = useState(false);
-  const [soundEnabled, setSoundEnabled] = useState(true);
   const [lastInteraction, setLastInteraction] = useState<Date>(new Date());
   const [showCommandDiscovery, setShowCommandDiscovery] = useState(false);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   const [showMobileSettings, setShowMobileSettings] = useState(false);
   const [visualMode, setVisualMode] = useState(false);
-  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({
-    language: 'en-US',
-    sensitivity: 0.5,
-    voiceRate: 1.0,
-    voicePitch: 1.0,
-    voiceVolume: 0.8,
-    autoStart: false,
-    continuousMode: false,
-    noiseSuppression: true,
-    echoCancellation: true
-  });
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [mobileSettings, setMobileSettings] = useState<MobileVoiceSettings>(loadMobileVoiceSettings);
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  const [detailTodoId, setDetailTodoId] = useState<string | null>(null);
+  const { view, updateView, resetFilters } = useListView();
+  const soundEnabled = mobileSettings.voiceConfirmation;
+  // Each device type has its own settings panel, so follow the one the user sees
+  const continuousMode = MobileUtils.isMobile() ? mobileSettings.continuousMode : voiceSettings.continuousMode;
+  const wakePhrase = voiceSettings.wakePhrase.trim() || DEFAULT_VOICE_SETTINGS.wakePhrase;
+  const handsFree = useHandsFree(continuousMode, wakePhrase, voiceSettings.sleepAfter);
+
+  // Voice commands change and undo both settings panels together
+  const handleSettingsChange = (settings: AppSettings) => {
+    setVoiceSettings(settings.voice);
+    setMobileSettings(settings.mobile);
+  };
   
   const {
     isListening,
     isSupported,
     transcript,
     confidence,
+    isFinal,
     error,
     startListening,
     stopListening,
     resetTranscript
-  } = useSpeechRecognition();
+  } = useSpeechRecognition(voiceSettings.language, handsFree.isActive);
   
   const {
     todos,
     isProcessing,
+    followUp,
+    spokenText,
+    completeTodo,
     toggleTodo,
+    setTodoRecurrence,
+    setTodoReminder,
+    addSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    setTodoNotes,
+    moveTodo,
     deleteTodo,
-    executeVoiceCommand
-  } = useTodos();
+    undo,
+    redo,
+    executeVoiceCommand,
+    handleTranscript,
+    endDictation,
+    resolveConfirmation,
+    cancelFollowUp
+  } = useTodos({ voice: voiceSettings, mobile: mobileSettings }, handleSettingsChange, view, updateView);
+
+  const handleReminderAction = ({ action, todoId }: ReminderActionMessage) => {
+    if (action === 'complete') {
+      completeTodo(todoId);
+    } else if (action === 'snooze') {
+      setTodoReminder(todoId, getSnoozeTime());
+    }
+  };
+
+  const reminders = useReminders(todos, {
+    onShown: id => setTodoReminder(id, undefined),
+    onAction: handleReminderAction
+  });
+
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    saveMobileVoiceSettings(mobileSettings);
+  }, [mobileSettings]);
 
-  // Handle voice command when speech recognition completes
   useEffect(() => {
-    if (transcript && !isListening && confidence > 0.5) {
-      const command = parseVoiceCommand(transcript);
-      executeVoiceCommand(command);
+    if (mobileSettings.hapticFeedback) {
+      HapticFeedback.enable();
+    } else {
+      HapticFeedback.disable();
+    }
+  }, [mobileSettings.hapticFeedback]);
+
+  // Large text scales the whole interface, since sizes are in rem
+  useEffect(() => {
+    document.documentElement.style.fontSize = mobileSettings.largeText ? '112.5%' : '';
+  }, [mobileSettings.largeText]);
+
+  // Handle voice command when speech recognition completes; hands-free sessions keep going after each phrase
+  useEffect(() => {
+    const isComplete = !isListening || (handsFree.isActive && isFinal);
+    if (transcript && isComplete && confidence > 0.5) {
+      // Answers to a follow-up question need no wake phrase
+      const command = followUp ? transcript : handsFree.hear(transcript);
       resetTranscript();
-      setLastInteraction(new Date());
+      if (command) {
+        handleTranscript(command);
+        setLastInteraction(new Date());
+      }
     }
-  }, [transcript, isListening, confidence, executeVoiceCommand, resetTranscript]);
+  }, [transcript, isListening, isFinal, confidence, followUp, handsFree, handleTranscript, resetTranscript]);
+
+  // Keep listening while a follow-up such as bulk add waits for the next phrase, or hands-free is on
+  useEffect(() => {
+    if (!(followUp || handsFree.isActive) || isListening || isProcessing || transcript || error) return;
+
+    const timer = setTimeout(startListening, 300);
+    return () => clearTimeout(timer);
+  }, [followUp, handsFree.isActive, isListening, isProcessing, transcript, error, startListening]);
+
+  // Hands-free pauses while replies are spoken, so it does not hear itself, and stops once asleep
+  useEffect(() => {
+    if (isListening && ((handsFree.isActive && isProcessing) || handsFree.state === 'asleep')) {
+      stopListening();
+    }
+  }, [isListening, isProcessing, handsFree.isActive, handsFree.state, stopListening]);
+
+  // Ctrl+Z / Cmd+Z undoes, adding Shift (or Ctrl+Y) redoes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        setUndoMessage(null);
+      } else if (key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Welcome message on first load
   useEffect(() => {
@@ -103,8 +215,18 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [lastInteraction, todos, soundEnabled]);
 
+  const handleStartListening = () => {
+    handsFree.wake();
+    startListening();
+  };
+
+  const handleStopListening = () => {
+    handsFree.sleep();
+    stopListening();
+  };
+
   const handleSoundToggle = () => {
-    setSoundEnabled(!soundEnabled);
+    setMobileSettings(prev => ({ ...prev, voiceConfirmation: !prev.voiceConfirmation }));
     if (!soundEnabled) {
       speak('Sound enabled');
     }
@@ -117,19 +239,23 @@ const App: React.FC = () => {
   };
 
   const handleCommandSuggestion = (command: string) => {
-    const parsedCommand = parseVoiceCommand(command);
-    executeVoiceCommand(parsedCommand);
+    handleTranscript(command);
     setShowCommandDiscovery(false);
     setLastInteraction(new Date());
   };
 
+  // Typed text takes the same path as speech, including answers to questions
+  const handleTypedCommand = (text: string) => {
+    handleTranscript(text);
+    setLastInteraction(new Date());
+  };
+
   const handleVoiceSettingsChange = (newSettings: VoiceSettings) => {
     setVoiceSettings(newSettings);
   };
 
-  const handleMobileSettingsChange = (newSettings: any) => {
-    // Handle mobile-specific settings
-    console.log('Mobile settings changed:', newSettings);
+  const handleMobileSettingsChange = (newSettings: MobileVoiceSettings) => {
+    setMobileSettings(newSettings);
   };
 
   const handleAnnouncement = (message: string) => {
@@ -145,20 +271,26 @@ const App: React.FC = () => {
     speak('Todo list refreshed', voiceSettings.voiceRate);
   };
 
+  const handleDelete = (id: string) => {
+    const todo = todos.find(t => t.id === id);
+    deleteTodo(id);
+    if (todo) {
+      setUndoMessage(`Deleted "${todo.text}"`);
+    }
+  };
+
+  const handleUndo = () => {
+    undo();
+    setUndoMessage(null);
+  };
+
+  const dismissUndoToast = useCallback(() => setUndoMessage(null), []);
+
   const handleToggleVisualMode = () => {
     setVisualMode(!visualMode);
   };
 
-  const commands = [
-    "Add buy groceries",
-    "Add call mom high priority", 
-    "Create workout plan",
-    "Complete task 1",
-    "Done buy groceries",
-    "Delete task 2",
-    "Remove call mom",
-    "Clear all"
-  ];
+  const commands = getHelpExamples();
 
   return (
     <ErrorBoundary>
@@ -245,13 +377,46 @@ const App: React.FC = () => {
             </motion.div>
           )}
 
+          {/* Hands-free Status */}
+          <HandsFreeIndicator
+            state={handsFree.state}
+            wakePhrase={wakePhrase}
+            sleepAfter={voiceSettings.sleepAfter}
+            onWake={handleStartListening}
+          />
+
+          <ReminderBanner
+            reminders={reminders.dueReminders}
+            permission={reminders.permission}
+            needsPermission={reminders.needsPermission}
+            onSnooze={id => setTodoReminder(id, getSnoozeTime())}
+            onComplete={completeTodo}
+            onDismiss={id => setTodoReminder(id, undefined)}
+            onEnableNotifications={reminders.requestPermission}
+          />
+
           {/* Main Content */}
           <main className="flex-1 p-4 pb-32">
             <div className="max-w-md mx-auto">
+              <CommandBar
+                todos={todos}
+                language={voiceSettings.language}
+                isAnswering={!!followUp}
+                onSubmit={handleTypedCommand}
+              />
               <TodoList
                 todos={todos}
+                view={view}
+                onViewChange={updateView}
+                onResetFilters={resetFilters}
                 onToggle={toggleTodo}
-                onDelete={deleteTodo}
+                onDelete={handleDelete}
+                onRecurrenceChange={setTodoRecurrence}
+                onAddSubtask={addSubtask}
+                onToggleSubtask={toggleSubtask}
+                onDeleteSubtask={deleteSubtask}
+                onOpenDetails={setDetailTodoId}
+                onMove={moveTodo}
                 onRefresh={handleRefresh}
               />
             </div>
@@ -263,34 +428,97 @@ const App: React.FC = () => {
               isListening={isListening}
               isProcessing={isProcessing}
               isSupported={isSupported}
-              onStartListening={startListening}
-              onStopListening={stopListening}
+              onStartListening={handleStartListening}
+              onStopListening={handleStopListening}
               transcript={transcript}
             />
           </div>
 
+          {/* Bulk Add Dictation */}
+          <BulkAddSession
+            isActive={followUp?.kind === 'dictation'}
+            addedTodos={followUp?.kind === 'dictation' ? followUp.added : []}
+            isListening={isListening}
+            onFinish={endDictation}
+          />
+
+          {/* Disambiguation Question */}
+          <VoicePrompt
+            isOpen={followUp?.kind === 'disambiguation'}
+            question={followUp?.kind === 'disambiguation' ? followUp.prompt : ''}
+            choices={followUp?.kind === 'disambiguation' ? followUp.candidates.map(todo => todo.text) : []}
+            isListening={isListening}
+            onChoose={(index) => handleTranscript(String(index + 1))}
+            onCancel={cancelFollowUp}
+          />
+
+          {/* Question for a command that left something out */}
+          <VoicePrompt
+            isOpen={followUp?.kind === 'slot'}
+            question={followUp?.kind === 'slot' ? followUp.prompt : ''}
+            isListening={isListening}
+            onCancel={cancelFollowUp}
+          />
+
+          {/* Yes/no check before destructive commands */}
+          <VoicePrompt
+            isOpen={followUp?.kind === 'confirmation'}
+            question={followUp?.kind === 'confirmation' ? followUp.prompt : ''}
+            choices={['Yes', 'No']}
+            isListening={isListening}
+            timeoutMs={CONFIRMATION_TIMEOUT}
+            onChoose={(index) => resolveConfirmation(index === 0)}
+            onCancel={() => resolveConfirmation(false)}
+          />
+
+          {/* Paging through a list read aloud */}
+          <VoicePrompt
+            isOpen={followUp?.kind === 'reading'}
+            question={followUp?.kind === 'reading' ? followUp.prompt : ''}
+            choices={['Next', 'Stop']}
+            isListening={isListening}
+            timeoutMs={READING_TIMEOUT}
+            onChoose={(index) => index === 0 ? executeVoiceCommand({ action: 'read_more' }) : cancelFollowUp()}
+            onCancel={cancelFollowUp}
+          />
+
           {/* Voice Command Discovery */}
           <VoiceCommandDiscovery
             onCommandSuggestion={handleCommandSuggestion}
-            isVisible={showCommandDiscovery}
+            isVisible={showCommandDiscovery && !followUp}
             todoCount={todos.length}
             hasCompletedTasks={todos.some(t => t.completed)}
           />
 
+          {/* Undo after deleting from the list */}
+          <UndoToast
+            message={undoMessage}
+            onUndo={handleUndo}
+            onDismiss={dismissUndoToast}
+          />
+
           {/* Accessibility Indicators */}
           <AccessibilityIndicators
             isListening={isListening}
             isProcessing={isProcessing}
             transcript={transcript}
+            spokenText={spokenText}
             error={error}
             soundEnabled={soundEnabled}
             onToggleSound={handleSoundToggle}
             onToggleVisualMode={handleToggleVisualMode}
           />
 
+          <TaskDetail
+            todo={todos.find(todo => todo.id === detailTodoId)}
+            onClose={() => setDetailTodoId(null)}
+            onSaveNotes={setTodoNotes}
+          />
+
           {/* Voice Settings Panel */}
           <VoiceSettingsPanel
             isOpen={showVoiceSettings}
+            settings={voiceSettings}
             onClose={() => setShowVoiceSettings(false)}
             onSettingsChange={handleVoiceSettingsChange}
           />
@@ -298,6 +526,7 @@ const App: React.FC = () => {
           {/* Mobile Voice Settings Panel */}
           <MobileVoiceSettings
             isOpen={showMobileSettings}
+            settings={mobileSettings}
             onClose={() => setShowMobileSettings(false)}
             onSettingsChange={handleMobileSettingsChange}
           />
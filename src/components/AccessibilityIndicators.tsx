@@ -6,16 +6,27 @@ interface AccessibilityIndicatorsProps {
   isListening: boolean;
   isProcessing: boolean;
   transcript: string;
+  // What the app last said aloud, shown alongside what was heard
+  spokenText?: string;
   error: string | null;
   soundEnabled: boolean;
   onToggleSound: () => void;
   onToggleVisualMode: () => void;
 }
 
+interface TranscriptEntry {
+  speaker: 'user' | 'app';
+  text: string;
+}
+
+// Long read-outs stay on screen for roughly as long as they take to say
+const getReplyDuration = (text: string): number => Math.max(4000, text.split(' ').length * 400);
+
 export const AccessibilityIndicators: React.FC<AccessibilityIndicatorsProps> = ({
   isListening,
   isProcessing,
   transcript,
+  spokenText = '',
   error,
   soundEnabled,
   onToggleSound,
@@ -23,7 +34,8 @@ export const AccessibilityIndicators: React.FC<AccessibilityIndicatorsProps> = (
 }) => {
   const [visualMode, setVisualMode] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [transcriptHistory, setTranscriptHistory] = useState<string[]>([]);
+  const [transcriptHistory, setTranscriptHistory] = useState<TranscriptEntry[]>([]);
+  const [showReply, setShowReply] = useState(false);
 
   useEffect(() => {
     // Check if user prefers reduced motion or has accessibility needs
@@ -38,13 +50,22 @@ export const AccessibilityIndicators: React.FC<AccessibilityIndicatorsProps> = (
   useEffect(() => {
     if (transcript && transcript.trim()) {
       setTranscriptHistory(prev => {
-        const newHistory = [...prev, transcript];
+        const newHistory = [...prev, { speaker: 'user' as const, text: transcript }];
         // Keep only last 3 transcripts
         return newHistory.slice(-3);
       });
     }
   }, [transcript]);
 
+  useEffect(() => {
+    if (!spokenText.trim()) return;
+
+    setTranscriptHistory(prev => [...prev, { speaker: 'app' as const, text: spokenText }].slice(-3));
+    setShowReply(true);
+    const timer = setTimeout(() => setShowReply(false), getReplyDuration(spokenText));
+    return () => clearTimeout(timer);
+  }, [spokenText]);
+
   const handleToggleVisualMode = () => {
     setVisualMode(!visualMode);
     onToggleVisualMode();
@@ -153,7 +174,7 @@ export const AccessibilityIndicators: React.FC<AccessibilityIndicatorsProps> = (
       {/* Enhanced Transcript Display */}
       {visualMode && (
         <AnimatePresence>
-          {transcript && (
+          {(transcript || showReply) && (
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -166,19 +187,28 @@ export const AccessibilityIndicators: React.FC<AccessibilityIndicatorsProps> = (
               </div>
               
               <div className="space-y-2">
-                {transcriptHistory.map((text, index) => (
+                {transcriptHistory.map((entry, index) => (
                   <motion.div
                     key={index}
-                    initial={{ opacity: 0, x: -10 }}
+                    initial={{ opacity: 0, x: entry.speaker === 'app' ? 10 : -10 }}
                     animate={{ opacity: 1, x: 0 }}
                     className={`p-2 rounded-lg ${
                       index === transcriptHistory.length - 1 
-                        ? 'bg-blue-500/20 border border-blue-500/30' 
+                        ? entry.speaker === 'app'
+                          ? 'bg-purple-500/20 border border-purple-500/30'
+                          : 'bg-blue-500/20 border border-blue-500/30'
                         : 'bg-white/5'
                     }`}
                   >
-                    <p className="text-white text-sm">"{text}"</p>
-                    {index === transcriptHistory.length - 1 && isListening && (
+                    {entry.speaker === 'app' ? (
+                      <div className="flex items-start space-x-2">
+                        <Volume2 className="w-4 h-4 text-purple-300 flex-shrink-0 mt-0.5" />
+                        <p className="text-white text-sm">{entry.text}</p>
+                      </div>
+                    ) : (
+                      <p className="text-white text-sm">"{entry.text}"</p>
+                    )}
+                    {index === transcriptHistory.length - 1 && entry.speaker === 'user' && isListening && (
                       <div className="flex justify-end mt-1">
                         <motion.div
                           className="w-2 h-2 bg-green-400 rounded-full"
@@ -0,0 +1,78 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ListPlus, Check, Mic } from 'lucide-react';
+import { Todo } from '../types';
+
+interface BulkAddSessionProps {
+  isActive: boolean;
+  addedTodos: Todo[];
+  isListening: boolean;
+  onFinish: () => void;
+}
+
+export const BulkAddSession: React.FC<BulkAddSessionProps> = ({
+  isActive,
+  addedTodos,
+  isListening,
+  onFinish
+}) => {
+  return (
+    <AnimatePresence>
+      {isActive && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-40 left-1/2 transform -translate-x-1/2 z-10 w-full max-w-sm px-4"
+        >
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-4 shadow-xl">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2">
+                <ListPlus className="w-5 h-5 text-green-300" />
+                <h3 className="text-white font-medium text-sm">Bulk add</h3>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 border border-green-500/30 text-green-200">
+                  {addedTodos.length} added
+                </span>
+              </div>
+              <button
+                onClick={onFinish}
+                className="flex items-center space-x-1 px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 transition-colors text-white text-sm touch-manipulation min-h-[44px]"
+              >
+                <Check className="w-4 h-4" />
+                <span>Done</span>
+              </button>
+            </div>
+
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              <AnimatePresence initial={false}>
+                {addedTodos.map((todo, index) => (
+                  <motion.div
+                    key={todo.id}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="flex items-center space-x-2 bg-white/5 rounded-lg p-2"
+                  >
+                    <span className="text-white/50 text-xs w-4">{index + 1}</span>
+                    <span className="text-white/90 text-sm flex-1 truncate">{todo.text}</span>
+                    {todo.priority === 'high' && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 border border-red-500/30 text-red-300">
+                        High
+                      </span>
+                    )}
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </div>
+
+            <div className="mt-3 flex items-center justify-center space-x-2 text-white/60 text-xs">
+              <Mic className={`w-3 h-3 ${isListening ? 'text-green-400' : ''}`} />
+              <p>
+                {isListening ? 'Say the next task, or "done" to finish' : 'Tap the microphone to keep adding'}
+              </p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
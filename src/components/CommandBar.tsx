@@ -0,0 +1,234 @@
+import React, { useState, useMemo } from 'react';
+import { Keyboard, CornerDownLeft } from 'lucide-react';
+import { Todo, VoiceCommand } from '../types';
+import { parseVoiceCommands } from '../utils/speech';
+import { getCommandCompletions, getSlotQuestion } from '../utils/commands';
+import { formatDueLabel } from '../utils/dates';
+import { SORT_DESCRIPTIONS } from '../utils/filters';
+import { parseRRule, describeRecurrence } from '../utils/recurrence';
+import { useCommandHistory } from '../hooks/useCommandHistory';
+
+interface CommandBarProps {
+  todos: Todo[];
+  language: string;
+  // A question is waiting, so typed text is an answer rather than a new command
+  isAnswering: boolean;
+  onSubmit: (text: string) => void;
+}
+
+const ACTION_LABELS: Record<VoiceCommand['action'], string> = {
+  add: 'Add',
+  complete: 'Complete',
+  delete: 'Delete',
+  edit: 'Change',
+  clear: 'Clear all',
+  unknown: 'Not a command',
+  filter: 'Filter',
+  setting: 'Setting',
+  help: 'Help',
+  summary: 'Summary',
+  bulk_add: 'Add several',
+  undo: 'Undo',
+  redo: 'Redo',
+  query: 'Read tasks',
+  read_more: 'Read more',
+  set_priority: 'Set priority',
+  set_category: 'Set category',
+  remind: 'Remind',
+  add_subtask: 'Add step',
+  complete_subtask: 'Complete step',
+  add_note: 'Add note',
+  reorder: 'Move',
+  sort: 'Sort',
+  search: 'Search'
+};
+
+// What the preview shows under the input, e.g. "Add", "milk", "high priority", "shopping", "Tomorrow"
+const describeCommand = (command: VoiceCommand): string[] => {
+  const rule = command.recurrence ? parseRRule(command.recurrence) : undefined;
+  const position = command.index !== undefined && (command.index < 0 ? 'last task' : `task ${command.index + 1}`);
+  const target = command.recent ? (command.recent === 'all' ? 'them' : 'it') : position;
+
+  return [
+    command.text ?? target,
+    command.step,
+    command.priority && `${command.priority} priority`,
+    command.category === '' ? 'no category' : command.category,
+    command.dueDate && formatDueLabel(command.dueDate),
+    command.reminderAt && `reminder ${formatDueLabel(command.reminderAt).toLowerCase()}`,
+    rule && describeRecurrence(rule),
+    command.sort && `sorted ${SORT_DESCRIPTIONS[command.sort]}`,
+    command.search,
+    command.missing && `then asks: ${getSlotQuestion(command)}`
+  ].filter((part): part is string => !!part);
+};
+
+export const CommandBar: React.FC<CommandBarProps> = ({
+  todos,
+  language,
+  isAnswering,
+  onSubmit
+}) => {
+  const [input, setInput] = useState('');
+  const [selected, setSelected] = useState(-1);
+  const [isFocused, setIsFocused] = useState(false);
+  // Position in the history while stepping through it with the arrow keys
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const { history, addToHistory } = useCommandHistory();
+
+  const commands = useMemo(
+    () => (input.trim() && !isAnswering ? parseVoiceCommands(input, language) : []),
+    [input, language, isAnswering]
+  );
+
+  // Text that is not a command is offered as a new task first
+  const suggestions = useMemo(() => {
+    if (isAnswering) return [];
+    const completions = getCommandCompletions(input, todos);
+    const isUnknown = commands.length > 0 && commands.every(command => command.action === 'unknown');
+    return isUnknown ? [`Add ${input.trim()}`, ...completions] : completions;
+  }, [input, todos, commands, isAnswering]);
+
+  const showSuggestions = isFocused && historyIndex === null && suggestions.length > 0;
+
+  const changeInput = (value: string) => {
+    setInput(value);
+    setSelected(-1);
+    setHistoryIndex(null);
+  };
+
+  const submit = (text: string) => {
+    const command = text.trim();
+    if (!command) return;
+
+    onSubmit(command);
+    addToHistory(command);
+    changeInput('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(showSuggestions && selected >= 0 ? suggestions[selected] : input);
+  };
+
+  const showHistoryEntry = (index: number | null) => {
+    if (historyIndex === null) {
+      setDraft(input);
+    }
+    setHistoryIndex(index);
+    setInput(index === null ? draft : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowUp':
+        e.preventDefault();
+        if (showSuggestions) {
+          setSelected(prev => (prev <= 0 ? suggestions.length : prev) - 1);
+        } else if (history.length > 0) {
+          showHistoryEntry(Math.min((historyIndex ?? -1) + 1, history.length - 1));
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (showSuggestions) {
+          setSelected(prev => (prev + 1) % suggestions.length);
+        } else if (historyIndex !== null) {
+          showHistoryEntry(historyIndex > 0 ? historyIndex - 1 : null);
+        }
+        break;
+      case 'Tab':
+        if (showSuggestions && !e.shiftKey) {
+          e.preventDefault();
+          changeInput(suggestions[Math.max(selected, 0)]);
+        }
+        break;
+      case 'Escape':
+        if (input) {
+          e.preventDefault();
+          changeInput('');
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="relative mb-4">
+      <form
+        onSubmit={handleSubmit}
+        className="flex items-center space-x-2 bg-white/10 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/20"
+      >
+        <Keyboard className="w-4 h-4 text-white/70 flex-shrink-0" />
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => changeInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={isAnswering ? 'Type your answer' : 'Type a command, e.g. add milk tomorrow'}
+          className="flex-1 min-w-0 bg-transparent text-white text-sm placeholder-white/40 focus:outline-none"
+          role="combobox"
+          aria-label="Type a command"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls="command-suggestions"
+          aria-activedescendant={showSuggestions && selected >= 0 ? `command-suggestion-${selected}` : undefined}
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <button
+          type="submit"
+          disabled={!input.trim()}
+          className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 disabled:opacity-40 transition-colors"
+          aria-label="Run command"
+        >
+          <CornerDownLeft className="w-4 h-4 text-white" />
+        </button>
+      </form>
+
+      {commands.length > 0 && (
+        <div className="mt-2 space-y-1" aria-live="polite">
+          {commands.map((command, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-1 text-xs">
+              <span className={`px-2 py-0.5 rounded-full ${
+                command.action === 'unknown' ? 'bg-red-500/20 text-red-200' : 'bg-blue-500/30 text-blue-100'
+              }`}>
+                {ACTION_LABELS[command.action]}
+              </span>
+              {command.action !== 'unknown' && describeCommand(command).map((part, j) => (
+                <span key={j} className="px-2 py-0.5 rounded-full bg-white/10 text-white/80">
+                  {part}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showSuggestions && (
+        <ul
+          id="command-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-12 z-30 bg-gray-900/95 backdrop-blur-md rounded-lg border border-white/20 overflow-hidden"
+        >
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion}
+              id={`command-suggestion-${i}`}
+              role="option"
+              aria-selected={i === selected}
+              // Keeps focus in the input so the click is not lost to blur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => changeInput(suggestion)}
+              className={`px-3 py-2 text-sm text-white cursor-pointer ${i === selected ? 'bg-white/20' : 'hover:bg-white/10'}`}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Ear, Mic, Moon } from 'lucide-react';
+import { HandsFreeState, AWAKE_TIMEOUT } from '../hooks/useHandsFree';
+
+interface HandsFreeIndicatorProps {
+  state: HandsFreeState;
+  wakePhrase: string;
+  sleepAfter: number;
+  onWake: () => void;
+}
+
+export const HandsFreeIndicator: React.FC<HandsFreeIndicatorProps> = ({
+  state,
+  wakePhrase,
+  sleepAfter,
+  onWake
+}) => {
+  return (
+    <AnimatePresence>
+      {state !== 'off' && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          className="mx-4 mb-4"
+          role="status"
+          aria-live="polite"
+        >
+          <div className="max-w-md mx-auto bg-white/10 backdrop-blur-sm rounded-xl border border-white/20 px-4 py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                {state === 'idle' && <Ear className="w-5 h-5 text-green-300" />}
+                {state === 'awake' && <Mic className="w-5 h-5 text-yellow-300 animate-pulse" />}
+                {state === 'asleep' && <Moon className="w-5 h-5 text-blue-200" />}
+                <div>
+                  <p className="text-white text-sm font-medium">
+                    {state === 'idle' && `Hands-free: say "${wakePhrase}"`}
+                    {state === 'awake' && 'Listening for a command...'}
+                    {state === 'asleep' && 'Hands-free is asleep'}
+                  </p>
+                  <p className="text-white/60 text-xs">
+                    {state === 'idle' && `Sleeps after ${sleepAfter} min of quiet`}
+                    {state === 'awake' && 'Say what you want to do'}
+                    {state === 'asleep' && 'Tap the microphone or wake to continue'}
+                  </p>
+                </div>
+              </div>
+              {state === 'asleep' && (
+                <button
+                  onClick={onWake}
+                  className="px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 transition-colors text-white text-sm touch-manipulation"
+                >
+                  Wake
+                </button>
+              )}
+            </div>
+
+            {state === 'awake' && (
+              <div className="mt-3 h-1 rounded-full bg-white/10 overflow-hidden">
+                <motion.div
+                  className="h-full bg-yellow-300/70"
+                  initial={{ width: '100%' }}
+                  animate={{ width: '0%' }}
+                  transition={{ duration: AWAKE_TIMEOUT / 1000, ease: 'linear' }}
+                />
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
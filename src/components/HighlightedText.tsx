@@ -0,0 +1,27 @@
+import React from 'react';
+import { findSearchRanges } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const ranges = findSearchRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let end = 0;
+  ranges.forEach(([start, rangeEnd]) => {
+    parts.push(text.slice(end, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-300/40 text-inherit rounded-sm">
+        {text.slice(start, rangeEnd)}
+      </mark>
+    );
+    end = rangeEnd;
+  });
+  parts.push(text.slice(end));
+
+  return <>{parts}</>;
+};
@@ -15,43 +15,20 @@ import {
   TouchpadIcon,
   Headphones
 } from 'lucide-react';
+import { MobileVoiceSettings as MobileVoiceSettingsValues } from '../types';
 import { HapticFeedback, MobileUtils } from '../utils/haptic';
 
 interface MobileVoiceSettingsProps {
   isOpen: boolean;
+  settings: MobileVoiceSettings;
   onClose: () => void;
   onSettingsChange: (settings: MobileVoiceSettings) => void;
 }
 
-export interface MobileVoiceSettings {
-  // Voice Recognition Settings
-  language: string;
-  sensitivity: number;
-  continuousMode: boolean;
-  
-  // Mobile-specific settings
-  hapticFeedback: boolean;
-  hapticIntensity: 'light' | 'medium' | 'heavy';
-  screenWakeLock: boolean;
-  touchGestures: boolean;
-  
-  // Voice feedback settings
-  voiceConfirmation: boolean;
-  voiceRate: number;
-  voiceVolume: number;
-  
-  // Accessibility settings
-  screenReaderSupport: boolean;
-  visualFeedback: boolean;
-  largeText: boolean;
-  
-  // Audio settings
-  noiseSuppression: boolean;
-  echoCancellation: boolean;
-  autoGainControl: boolean;
-}
+// Shares its name with the panel below, so App can import both in one go
+export type MobileVoiceSettings = MobileVoiceSettingsValues;
 
-const DEFAULT_SETTINGS: MobileVoiceSettings = {
+export const DEFAULT_MOBILE_SETTINGS: MobileVoiceSettings = {
   language: 'en-US',
   sensitivity: 0.5,
   continuousMode: false,
@@ -70,26 +47,39 @@ const DEFAULT_SETTINGS: MobileVoiceSettings = {
   autoGainControl: true
 };
 
+const MOBILE_SETTINGS_KEY = 'mobile-voice-settings';
+
+export const loadMobileVoiceSettings = (): MobileVoiceSettings => {
+  // Haptics may already have been switched off before these settings were saved
+  const defaults = { ...DEFAULT_MOBILE_SETTINGS, hapticFeedback: HapticFeedback.isHapticEnabled() };
+  const savedSettings = localStorage.getItem(MOBILE_SETTINGS_KEY);
+  if (!savedSettings) return defaults;
+  
+  try {
+    return { ...defaults, ...JSON.parse(savedSettings) };
+  } catch (error) {
+    console.error('Error loading mobile voice settings:', error);
+    return defaults;
+  }
+};
+
+export const saveMobileVoiceSettings = (settings: MobileVoiceSettings): void => {
+  localStorage.setItem(MOBILE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
 export const MobileVoiceSettings: React.FC<MobileVoiceSettingsProps> = ({
   isOpen,
+  settings,
   onClose,
   onSettingsChange
 }) => {
-  const [settings, setSettings] = useState<MobileVoiceSettings>(() => {
-    const saved = localStorage.getItem('mobile-voice-settings');
-    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
-  });
-
   const [activeTab, setActiveTab] = useState<'voice' | 'mobile' | 'accessibility' | 'audio'>('mobile');
 
   const updateSetting = <K extends keyof MobileVoiceSettings>(
     key: K,
     value: MobileVoiceSettings[K]
   ) => {
-    const newSettings = { ...settings, [key]: value };
-    setSettings(newSettings);
-    localStorage.setItem('mobile-voice-settings', JSON.stringify(newSettings));
-    onSettingsChange(newSettings);
+    onSettingsChange({ ...settings, [key]: value });
     
     // Provide haptic feedback for setting changes
     if (key === 'hapticFeedback' && value) {
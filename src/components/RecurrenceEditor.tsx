@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { FREQUENCIES, formatRRule, parseRRule } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  recurrence?: string;
+  onSave: (recurrence?: string) => void;
+  onCancel: () => void;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  YEARLY: 'Yearly'
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'days',
+  WEEKLY: 'weeks',
+  MONTHLY: 'months',
+  YEARLY: 'years'
+};
+
+// Monday first, matching how schedules are read back
+const DAY_TOGGLES = [
+  { day: 1, label: 'M' },
+  { day: 2, label: 'T' },
+  { day: 3, label: 'W' },
+  { day: 4, label: 'T' },
+  { day: 5, label: 'F' },
+  { day: 6, label: 'S' },
+  { day: 0, label: 'S' }
+];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({
+  recurrence,
+  onSave,
+  onCancel
+}) => {
+  const initial = recurrence ? parseRRule(recurrence) : undefined;
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | ''>(initial?.frequency ?? '');
+  const [interval, setRepeatInterval] = useState(initial?.interval ?? 1);
+  const [byDay, setByDay] = useState<number[]>(initial?.byDay ?? []);
+  const [byMonthDay, setByMonthDay] = useState<number | undefined>(initial?.byMonthDay);
+
+  const toggleDay = (day: number) => {
+    setByDay(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b));
+  };
+
+  const handleSave = () => {
+    if (!frequency) {
+      onSave(undefined);
+      return;
+    }
+
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: Math.max(1, interval),
+      byDay: frequency === 'WEEKLY' && byDay.length > 0 ? byDay : undefined,
+      byMonthDay: frequency === 'MONTHLY' ? byMonthDay : undefined
+    };
+    onSave(formatRRule(rule));
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-white/10 border border-white/20 space-y-3">
+      <div className="flex items-center space-x-2">
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')}
+          className="flex-1 px-2 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+          aria-label="Repeat"
+        >
+          <option value="" className="text-gray-900">Does not repeat</option>
+          {FREQUENCIES.map(f => (
+            <option key={f} value={f} className="text-gray-900">{FREQUENCY_LABELS[f]}</option>
+          ))}
+        </select>
+
+        {frequency && (
+          <label className="flex items-center space-x-2 text-white/80 text-sm">
+            <span>every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={interval}
+              onChange={(e) => setRepeatInterval(parseInt(e.target.value, 10) || 1)}
+              className="w-14 px-2 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+            />
+            <span>{UNIT_LABELS[frequency]}</span>
+          </label>
+        )}
+      </div>
+
+      {frequency === 'WEEKLY' && (
+        <div className="flex justify-between" role="group" aria-label="Repeat on">
+          {DAY_TOGGLES.map(({ day, label }) => (
+            <button
+              key={day}
+              onClick={() => toggleDay(day)}
+              className={`w-9 h-9 rounded-full text-sm touch-manipulation transition-colors ${
+                byDay.includes(day)
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+              aria-pressed={byDay.includes(day)}
+              aria-label={DAY_NAMES[day]}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {frequency === 'MONTHLY' && (
+        <label className="flex items-center space-x-2 text-white/80 text-sm">
+          <span>on day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={byMonthDay ?? ''}
+            placeholder="due date"
+            onChange={(e) => setByMonthDay(parseInt(e.target.value, 10) || undefined)}
+            className="w-24 px-2 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+          />
+        </label>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 rounded-full text-white/70 hover:bg-white/10 text-sm touch-manipulation"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 text-white text-sm touch-manipulation"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, BellOff, Check, Clock, X } from 'lucide-react';
+import { Todo } from '../types';
+import { ReminderPermission, SNOOZE_MINUTES } from '../utils/reminders';
+
+interface ReminderBannerProps {
+  reminders: Todo[];
+  permission: ReminderPermission;
+  // A reminder is set but notifications have not been allowed or refused yet
+  needsPermission: boolean;
+  onSnooze: (id: string) => void;
+  onComplete: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onEnableNotifications: () => void;
+}
+
+// Shows reminders in the app when they cannot be sent as notifications, and offers to turn notifications on
+export const ReminderBanner: React.FC<ReminderBannerProps> = ({
+  reminders,
+  permission,
+  needsPermission,
+  onSnooze,
+  onComplete,
+  onDismiss,
+  onEnableNotifications
+}) => {
+  return (
+    <AnimatePresence>
+      {(reminders.length > 0 || needsPermission) && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          className="mx-4 mb-4"
+          role="alert"
+        >
+          <div className="max-w-md mx-auto bg-yellow-500/20 backdrop-blur-sm rounded-xl border border-yellow-500/30 px-4 py-3 space-y-3">
+            {reminders.map(todo => (
+              <div key={todo.id} className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Bell className="w-5 h-5 text-yellow-300 flex-shrink-0" />
+                  <p className="text-white text-sm font-medium truncate">{todo.text}</p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => onSnooze(todo.id)}
+                    className="flex items-center space-x-1 px-2 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 transition-colors text-white text-xs touch-manipulation"
+                  >
+                    <Clock className="w-3 h-3" />
+                    <span>{SNOOZE_MINUTES} min</span>
+                  </button>
+                  <button
+                    onClick={() => onComplete(todo.id)}
+                    className="p-1.5 rounded-full hover:bg-green-500/30 transition-colors touch-manipulation"
+                    aria-label={`Complete ${todo.text}`}
+                  >
+                    <Check className="w-4 h-4 text-green-300" />
+                  </button>
+                  <button
+                    onClick={() => onDismiss(todo.id)}
+                    className="p-1.5 rounded-full hover:bg-white/20 transition-colors touch-manipulation"
+                    aria-label="Dismiss reminder"
+                  >
+                    <X className="w-4 h-4 text-white/70" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {permission !== 'granted' && (
+              <div className={`flex items-center justify-between ${reminders.length > 0 ? 'border-t border-white/10 pt-2' : ''}`}>
+                <p className="flex items-center space-x-2 text-white/60 text-xs">
+                  <BellOff className="w-3 h-3" />
+                  <span>
+                    {permission === 'unsupported'
+                      ? 'This browser cannot show notifications'
+                      : reminders.length > 0
+                        ? 'Notifications are off, so reminders show here'
+                        : 'Turn on notifications so reminders reach you'}
+                  </span>
+                </p>
+                {permission === 'default' && (
+                  <button
+                    onClick={onEnableNotifications}
+                    className="px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 transition-colors text-white text-xs touch-manipulation"
+                  >
+                    Turn on
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Plus, X } from 'lucide-react';
+import { Subtask } from '../types';
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  onToggle: (subtaskId: string) => void;
+  onDelete: (subtaskId: string) => void;
+  onAdd: (text: string) => void;
+}
+
+export const SubtaskList: React.FC<SubtaskListProps> = ({
+  subtasks,
+  onToggle,
+  onDelete,
+  onAdd
+}) => {
+  const [newStep, setNewStep] = useState('');
+  const done = subtasks.filter(step => step.completed).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStep.trim()) return;
+
+    onAdd(newStep);
+    setNewStep('');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="mt-3 overflow-hidden"
+    >
+      {subtasks.length > 0 && (
+        <div
+          className="h-1 mb-2 rounded-full bg-white/10 overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={subtasks.length}
+          aria-valuenow={done}
+          aria-label={`${done} of ${subtasks.length} steps done`}
+        >
+          <div
+            className="h-full bg-green-400/70 transition-all duration-300"
+            style={{ width: `${(done / subtasks.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        <AnimatePresence initial={false}>
+          {subtasks.map(step => (
+            <motion.li
+              key={step.id}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -10 }}
+              className="flex items-center space-x-2 group"
+            >
+              <button
+                onClick={() => onToggle(step.id)}
+                className={`flex-shrink-0 w-6 h-6 rounded-full border flex items-center justify-center touch-manipulation transition-colors ${
+                  step.completed ? 'bg-green-500 border-green-500' : 'border-white/40 hover:bg-white/10'
+                }`}
+                aria-pressed={step.completed}
+                aria-label={`${step.completed ? 'Reopen' : 'Check off'} ${step.text}`}
+              >
+                {step.completed && <Check className="w-3 h-3 text-white" />}
+              </button>
+              <span className={`flex-1 text-sm ${step.completed ? 'text-white/50 line-through' : 'text-white/80'}`}>
+                {step.text}
+              </span>
+              <button
+                onClick={() => onDelete(step.id)}
+                className="p-1 rounded-full hover:bg-red-500/20 transition-colors touch-manipulation"
+                aria-label={`Delete step ${step.text}`}
+              >
+                <X className="w-3 h-3 text-red-300" />
+              </button>
+            </motion.li>
+          ))}
+        </AnimatePresence>
+      </ul>
+
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2 mt-2">
+        <input
+          type="text"
+          value={newStep}
+          onChange={(e) => setNewStep(e.target.value)}
+          placeholder="Add a step"
+          className="flex-1 px-2 py-1.5 rounded-lg bg-white/10 border border-white/20 text-white text-sm placeholder-white/40"
+        />
+        <button
+          type="submit"
+          className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 transition-colors touch-manipulation"
+          aria-label="Add step"
+        >
+          <Plus className="w-4 h-4 text-white" />
+        </button>
+      </form>
+    </motion.div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileText, X, Save, Clock, Repeat, ListChecks } from 'lucide-react';
+import { Todo } from '../types';
+import { formatDueLabel } from '../utils/dates';
+import { parseRRule, describeRecurrence } from '../utils/recurrence';
+
+interface TaskDetailProps {
+  todo: Todo | undefined;
+  onClose: () => void;
+  onSaveNotes: (id: string, notes: string) => void;
+}
+
+export const TaskDetail: React.FC<TaskDetailProps> = ({
+  todo,
+  onClose,
+  onSaveNotes
+}) => {
+  const [notes, setNotes] = useState('');
+  const rule = todo?.recurrence ? parseRRule(todo.recurrence) : undefined;
+  const subtasks = todo?.subtasks ?? [];
+
+  // Notes dictated by voice while the view is open show up straight away
+  useEffect(() => {
+    setNotes(todo?.notes ?? '');
+  }, [todo?.id, todo?.notes]);
+
+  const handleSave = () => {
+    if (todo) {
+      onSaveNotes(todo.id, notes.trim());
+    }
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {todo && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50 w-full max-w-md mx-4"
+            role="dialog"
+            aria-label={`Details for ${todo.text}`}
+          >
+            <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 overflow-hidden">
+              {/* Header */}
+              <div className="p-4 border-b border-white/20">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <FileText className="w-5 h-5 text-white flex-shrink-0" />
+                    <h2 className="text-white font-semibold truncate">{todo.text}</h2>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                    aria-label="Close"
+                  >
+                    <X className="w-5 h-5 text-white" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-3 text-xs text-white/70">
+                  <span className="capitalize">{todo.priority} priority</span>
+                  {todo.category && <span>· {todo.category}</span>}
+                  {todo.dueDate && (
+                    <span className="flex items-center space-x-1">
+                      <Clock className="w-3 h-3" />
+                      <span>{formatDueLabel(todo.dueDate)}</span>
+                    </span>
+                  )}
+                  {rule && (
+                    <span className="flex items-center space-x-1">
+                      <Repeat className="w-3 h-3" />
+                      <span>{describeRecurrence(rule)}</span>
+                    </span>
+                  )}
+                  {subtasks.length > 0 && (
+                    <span className="flex items-center space-x-1">
+                      <ListChecks className="w-3 h-3" />
+                      <span>{subtasks.filter(step => step.completed).length}/{subtasks.length} steps</span>
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {/* Notes */}
+              <div className="p-4">
+                <label htmlFor="task-notes" className="block text-white/80 text-sm mb-2">Notes</label>
+                <textarea
+                  id="task-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={6}
+                  placeholder="Addresses, phone numbers, ingredients..."
+                  className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm placeholder-white/40 resize-none"
+                />
+              </div>
+
+              {/* Footer */}
+              <div className="p-4 border-t border-white/20">
+                <div className="flex space-x-2">
+                  <button
+                    onClick={onClose}
+                    className="flex-1 p-2 border border-white/20 rounded-lg text-white hover:bg-white/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="flex-1 p-2 bg-blue-500 hover:bg-blue-600 rounded-lg text-white font-medium transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>Save</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,8 +1,14 @@
-import React from 'react';
-import { motion } from 'framer-motion';
-import { Check, X, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, X, AlertCircle, CheckCircle, Trash2, Clock, Repeat, Bell, ListChecks, FileText } from 'lucide-react';
 import { Todo } from '../types';
 import { format } from 'date-fns';
+import { formatDueLabel, isOverdue } from '../utils/dates';
+import { parseRRule, describeRecurrence } from '../utils/recurrence';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { SubtaskList } from './SubtaskList';
+import { HighlightedText } from './HighlightedText';
+import { getNotesPreview } from '../utils/search';
 import { useSwipeGesture } from '../hooks/useSwipeGesture';
 import { VoiceHaptics } from '../utils/haptic';
 
@@ -11,14 +17,40 @@ interface TodoItemProps {
   index: number;
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
+  onRecurrenceChange?: (id: string, recurrence?: string) => void;
+  onAddSubtask?: (id: string, text: string) => void;
+  onToggleSubtask?: (id: string, subtaskId: string) => void;
+  onDeleteSubtask?: (id: string, subtaskId: string) => void;
+  onOpenDetails?: (id: string) => void;
+  highlight?: string; // search words to mark in the text, category and notes
 }
 
 export const TodoItem: React.FC<TodoItemProps> = ({
   todo,
   index,
   onToggle,
-  onDelete
+  onDelete,
+  onRecurrenceChange,
+  onAddSubtask,
+  onToggleSubtask,
+  onDeleteSubtask,
+  onOpenDetails,
+  highlight
 }) => {
+  const [isEditingRecurrence, setIsEditingRecurrence] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  // Shown after the last step is checked off
+  const [offerComplete, setOfferComplete] = useState(false);
+  const rule = todo.recurrence ? parseRRule(todo.recurrence) : undefined;
+  const subtasks = todo.subtasks ?? [];
+  const doneSubtasks = subtasks.filter(step => step.completed).length;
+  const canEditSubtasks = !!(onAddSubtask && onToggleSubtask && onDeleteSubtask);
+
+  const handleToggleSubtask = (subtaskId: string) => {
+    const isLastStep = subtasks.every(step => step.id === subtaskId ? !step.completed : step.completed);
+    onToggleSubtask?.(todo.id, subtaskId);
+    setOfferComplete(isLastStep && !todo.completed);
+  };
   // const [swipeOffset, setSwipeOffset] = useState(0);
   // const [showActions, setShowActions] = useState(false);
 
@@ -156,12 +188,89 @@ export const TodoItem: React.FC<TodoItemProps> = ({
               )}
               {todo.category && (
                 <span className="text-xs px-2 py-1 rounded-full bg-blue-500/20 border border-blue-500/30 text-blue-300">
-                  {todo.category}
+                  <HighlightedText text={todo.category} query={highlight} />
+                </span>
+              )}
+              {todo.dueDate && !todo.completed && (
+                <span className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full border ${
+                  isOverdue(todo.dueDate)
+                    ? 'bg-red-500/20 border-red-500/30 text-red-300'
+                    : 'bg-yellow-500/20 border-yellow-500/30 text-yellow-200'
+                }`}>
+                  <Clock className="w-3 h-3" />
+                  <span>{formatDueLabel(todo.dueDate)}</span>
+                </span>
+              )}
+              {todo.reminderAt && !todo.completed && (
+                <span
+                  className="flex items-center space-x-1 text-xs px-2 py-1 rounded-full bg-white/10 border border-white/20 text-white/80"
+                  aria-label={`Reminder ${formatDueLabel(todo.reminderAt)}`}
+                >
+                  <Bell className="w-3 h-3" />
+                  <span>{formatDueLabel(todo.reminderAt)}</span>
                 </span>
               )}
+              {subtasks.length > 0 && (
+                <button
+                  onClick={() => setShowSubtasks(!showSubtasks)}
+                  className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full border touch-manipulation ${
+                    doneSubtasks === subtasks.length
+                      ? 'bg-green-500/20 border-green-500/30 text-green-300'
+                      : 'bg-white/10 border-white/20 text-white/80'
+                  }`}
+                  aria-expanded={showSubtasks}
+                  aria-label={`${doneSubtasks} of ${subtasks.length} steps done`}
+                >
+                  <ListChecks className="w-3 h-3" />
+                  <span>{doneSubtasks}/{subtasks.length}</span>
+                </button>
+              )}
+              {rule && (
+                <button
+                  onClick={() => onRecurrenceChange && setIsEditingRecurrence(true)}
+                  className="flex items-center space-x-1 text-xs px-2 py-1 rounded-full bg-purple-500/20 border border-purple-500/30 text-purple-200 touch-manipulation"
+                  aria-label={`Repeats ${describeRecurrence(rule)}`}
+                >
+                  <Repeat className="w-3 h-3" />
+                  <span>{describeRecurrence(rule)}</span>
+                </button>
+              )}
             </div>
             
             <div className="flex items-center space-x-1">
+              {onOpenDetails && (
+                <motion.button
+                  onClick={() => onOpenDetails(todo.id)}
+                  className="p-2 rounded-full hover:bg-white/10 transition-colors touch-manipulation min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label="Details and notes"
+                >
+                  <FileText className={`w-4 h-4 ${todo.notes ? 'text-white' : 'text-white/60'}`} />
+                </motion.button>
+              )}
+              {canEditSubtasks && subtasks.length === 0 && !todo.completed && (
+                <motion.button
+                  onClick={() => setShowSubtasks(!showSubtasks)}
+                  className="p-2 rounded-full hover:bg-white/10 transition-colors touch-manipulation min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label="Add steps"
+                >
+                  <ListChecks className="w-4 h-4 text-white/60" />
+                </motion.button>
+              )}
+              {onRecurrenceChange && !rule && !todo.completed && (
+                <motion.button
+                  onClick={() => setIsEditingRecurrence(true)}
+                  className="p-2 rounded-full hover:bg-white/10 transition-colors touch-manipulation min-w-[44px] min-h-[44px] flex items-center justify-center"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  aria-label="Make recurring"
+                >
+                  <Repeat className="w-4 h-4 text-white/60" />
+                </motion.button>
+              )}
               <motion.button
                 onClick={() => {
                   VoiceHaptics.todoDeleted();
@@ -183,8 +292,60 @@ export const TodoItem: React.FC<TodoItemProps> = ({
               : 'text-white/90'
             }
           `}>
-            {todo.text}
+            <HighlightedText text={todo.text} query={highlight} />
           </p>
+
+          {todo.notes && (
+            <p className="text-xs text-white/60 mt-1 truncate">
+              <HighlightedText text={getNotesPreview(todo.notes, highlight)} query={highlight} />
+            </p>
+          )}
+
+          {isEditingRecurrence && onRecurrenceChange && (
+            <RecurrenceEditor
+              recurrence={todo.recurrence}
+              onSave={(recurrence) => {
+                onRecurrenceChange(todo.id, recurrence);
+                setIsEditingRecurrence(false);
+              }}
+              onCancel={() => setIsEditingRecurrence(false)}
+            />
+          )}
+
+          <AnimatePresence>
+            {showSubtasks && canEditSubtasks && (
+              <SubtaskList
+                subtasks={subtasks}
+                onToggle={handleToggleSubtask}
+                onDelete={(subtaskId) => onDeleteSubtask!(todo.id, subtaskId)}
+                onAdd={(text) => onAddSubtask!(todo.id, text)}
+              />
+            )}
+          </AnimatePresence>
+
+          {offerComplete && !todo.completed && (
+            <div className="flex items-center justify-between mt-3 px-3 py-2 rounded-lg bg-green-500/20 border border-green-500/30">
+              <p className="text-sm text-green-200">All steps done. Complete the task?</p>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => setOfferComplete(false)}
+                  className="px-2 py-1 rounded-full text-white/70 hover:bg-white/10 text-xs touch-manipulation"
+                >
+                  Not now
+                </button>
+                <button
+                  onClick={() => {
+                    VoiceHaptics.todoCompleted();
+                    onToggle(todo.id);
+                    setOfferComplete(false);
+                  }}
+                  className="px-3 py-1 rounded-full bg-green-500/40 hover:bg-green-500/60 text-white text-xs touch-manipulation"
+                >
+                  Complete
+                </button>
+              </div>
+            </div>
+          )}
           
           <div className="flex items-center justify-between mt-2">
             <p className="text-xs text-white/60">
@@ -1,28 +1,44 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ListTodo, Filter, CheckCircle, Circle, RefreshCw } from 'lucide-react';
-import { Todo } from '../types';
+import { ListTodo, Filter, CheckCircle, Circle, RefreshCw, Flag, Tag, X, GripVertical, ArrowUpDown, Search } from 'lucide-react';
+import { Todo, TodoFilter, ListView, SortMode } from '../types';
 import { TodoItem } from './TodoItem';
 import { usePullToRefresh } from '../hooks/usePullToRefresh';
+import { useDragReorder } from '../hooks/useDragReorder';
 import { MobileUtils } from '../utils/haptic';
+import { getVisibleTodos, hasActiveFilters, describeTaskQuery, SORT_MODES, SORT_LABELS, SORT_DESCRIPTIONS } from '../utils/filters';
 
 interface TodoListProps {
   todos: Todo[];
+  view: ListView;
+  onViewChange: (changes: Partial<ListView>) => void;
+  onResetFilters: () => void;
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
+  onRecurrenceChange?: (id: string, recurrence?: string) => void;
+  onAddSubtask?: (id: string, text: string) => void;
+  onToggleSubtask?: (id: string, subtaskId: string) => void;
+  onDeleteSubtask?: (id: string, subtaskId: string) => void;
+  onOpenDetails?: (id: string) => void;
+  onMove?: (id: string, targetId: string, side: 'before' | 'after') => void;
   onRefresh?: () => Promise<void>;
 }
 
-type FilterType = 'all' | 'active' | 'completed';
-
 export const TodoList: React.FC<TodoListProps> = ({
   todos,
+  view,
+  onViewChange,
+  onResetFilters,
   onToggle,
   onDelete,
+  onRecurrenceChange,
+  onAddSubtask,
+  onToggleSubtask,
+  onDeleteSubtask,
+  onOpenDetails,
+  onMove,
   onRefresh
 }) => {
-  const [filter, setFilter] = useState<FilterType>('all');
-  
   const defaultRefresh = async () => {
     // Simulate refresh delay
     await new Promise(resolve => setTimeout(resolve, 1000));
@@ -41,16 +57,48 @@ export const TodoList: React.FC<TodoListProps> = ({
     disabled: !MobileUtils.isMobile() || todos.length === 0
   });
   
-  const filteredTodos = todos.filter(todo => {
-    switch (filter) {
-      case 'active':
-        return !todo.completed;
-      case 'completed':
-        return todo.completed;
-      default:
-        return true;
+  const filteredTodos = getVisibleTodos(todos, view);
+  const canReorder = !!onMove && filteredTodos.length > 1;
+
+  // `toIndex` is the position among the other tasks, so the moved one goes before whichever is there
+  const moveToPosition = (fromIndex: number, toIndex: number) => {
+    const moved = filteredTodos[fromIndex];
+    const others = filteredTodos.filter((_, index) => index !== fromIndex);
+    if (!onMove || !moved || others.length === 0) return;
+
+    if (toIndex < others.length) {
+      onMove(moved.id, others[toIndex].id, 'before');
+    } else {
+      onMove(moved.id, others[others.length - 1].id, 'after');
     }
-  });
+  };
+
+  const { draggingIndex, dropIndex, registerItem, bindHandle } = useDragReorder({ onReorder: moveToPosition });
+
+  // Arrow keys move a task one place, Home and End to either end
+  const handleReorderKey = (e: React.KeyboardEvent, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: filteredTodos.length - 1
+    };
+    const toIndex = targets[e.key];
+    if (toIndex === undefined) return;
+
+    e.preventDefault();
+    if (toIndex >= 0 && toIndex < filteredTodos.length && toIndex !== index) {
+      moveToPosition(index, toIndex);
+    }
+  };
+
+  // The drop line shows before the task that will follow the dragged one
+  const showsDropLineBefore = (index: number) => {
+    if (draggingIndex === null || dropIndex === null || dropIndex === draggingIndex || index === draggingIndex) return false;
+    return (index < draggingIndex ? index : index - 1) === dropIndex;
+  };
+  const showsDropLineAtEnd = draggingIndex !== null && dropIndex === filteredTodos.length - 1 && dropIndex !== draggingIndex;
+  const categories = [...new Set(todos.map(t => t.category).filter((c): c is string => !!c))].sort();
 
   const stats = {
     total: todos.length,
@@ -59,14 +107,22 @@ export const TodoList: React.FC<TodoListProps> = ({
     high: todos.filter(t => !t.completed && t.priority === 'high').length,
   };
 
-  const getFilterButtonClass = (filterType: FilterType) => {
+  const getFilterButtonClass = (filterType: TodoFilter) => {
     return `px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 touch-manipulation min-h-[44px] flex items-center justify-center ${
-      filter === filterType
+      view.status === filterType
         ? 'bg-white text-primary-600 shadow-md'
         : 'bg-white/20 text-white hover:bg-white/30'
     }`;
   };
 
+  const getChipClass = (isSelected: boolean) => {
+    return `px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 touch-manipulation min-h-[32px] capitalize ${
+      isSelected
+        ? 'bg-white text-primary-600 shadow-md'
+        : 'bg-white/10 text-white/80 hover:bg-white/20'
+    }`;
+  };
+
   if (todos.length === 0) {
     return (
       <motion.div
@@ -172,6 +228,44 @@ export const TodoList: React.FC<TodoListProps> = ({
           <div className="text-2xl font-bold text-red-300">{stats.high}</div>
           <div className="text-xs text-white/70">High</div>
         </div>
+        <p className="col-span-4 text-xs text-white/60 text-center" aria-live="polite">
+          Sorted {SORT_DESCRIPTIONS[view.sort]}
+          {view.sort === 'manual'
+            ? canReorder && ' · drag the handles to rearrange'
+            : ' · ties keep your own order'}
+        </p>
+      </motion.div>
+
+      {/* Search */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="flex items-center space-x-2 bg-white/10 backdrop-blur-sm rounded-lg px-3 py-2"
+      >
+        <Search className="w-4 h-4 text-white/70 flex-shrink-0" />
+        <input
+          type="search"
+          value={view.search ?? ''}
+          onChange={(e) => onViewChange({ search: e.target.value || undefined })}
+          placeholder="Search tasks and notes"
+          className="flex-1 min-w-0 bg-transparent text-white text-sm placeholder-white/40 focus:outline-none"
+          aria-label="Search tasks and notes"
+        />
+        {view.search && (
+          <>
+            <span className="text-xs text-white/60 flex-shrink-0" aria-live="polite">
+              {filteredTodos.length} {filteredTodos.length === 1 ? 'match' : 'matches'}
+            </span>
+            <button
+              onClick={() => onViewChange({ search: undefined })}
+              className="p-1 rounded-full hover:bg-white/10 transition-colors"
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4 text-white/70" />
+            </button>
+          </>
+        )}
       </motion.div>
 
       {/* Filter Buttons */}
@@ -183,50 +277,128 @@ export const TodoList: React.FC<TodoListProps> = ({
       >
         <Filter className="w-4 h-4 text-white/70" />
         <button
-          onClick={() => setFilter('all')}
+          onClick={() => onViewChange({ status: 'all' })}
           className={getFilterButtonClass('all')}
         >
           All
         </button>
         <button
-          onClick={() => setFilter('active')}
+          onClick={() => onViewChange({ status: 'active' })}
           className={getFilterButtonClass('active')}
         >
           <Circle className="w-3 h-3 inline mr-1" />
           Active
         </button>
         <button
-          onClick={() => setFilter('completed')}
+          onClick={() => onViewChange({ status: 'completed' })}
           className={getFilterButtonClass('completed')}
         >
           <CheckCircle className="w-3 h-3 inline mr-1" />
           Done
         </button>
+        <div className="flex items-center space-x-1 ml-auto">
+          <ArrowUpDown className="w-4 h-4 text-white/70" />
+          <select
+            value={view.sort}
+            onChange={(e) => onViewChange({ sort: e.target.value as SortMode })}
+            className="px-2 py-1 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+            aria-label="Sort tasks"
+          >
+            {SORT_MODES.map(sort => (
+              <option key={sort} value={sort} className="text-gray-900">{SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </div>
+      </motion.div>
+
+      {/* Priority and Category Filters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <Flag className="w-4 h-4 text-white/70" />
+        {(['high', 'medium', 'low'] as const).map(priority => (
+          <button
+            key={priority}
+            onClick={() => onViewChange({ priority: view.priority === priority ? undefined : priority })}
+            className={getChipClass(view.priority === priority)}
+            aria-pressed={view.priority === priority}
+          >
+            {priority}
+          </button>
+        ))}
+        {categories.length > 0 && <Tag className="w-4 h-4 text-white/70 ml-2" />}
+        {categories.map(category => (
+          <button
+            key={category}
+            onClick={() => onViewChange({ category: view.category === category ? undefined : category })}
+            className={getChipClass(view.category?.toLowerCase() === category.toLowerCase())}
+            aria-pressed={view.category?.toLowerCase() === category.toLowerCase()}
+          >
+            {category}
+          </button>
+        ))}
+        {hasActiveFilters(view) && (
+          <button
+            onClick={onResetFilters}
+            className="flex items-center px-2 py-1 rounded-full text-xs text-white/70 hover:bg-white/10 transition-colors min-h-[32px]"
+          >
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </button>
+        )}
       </motion.div>
 
       {/* Todo Items */}
       <div className="space-y-3 max-h-96 overflow-y-auto">
         <AnimatePresence mode="popLayout">
           {filteredTodos.map((todo, index) => (
-            <TodoItem
-              key={todo.id}
-              todo={todo}
-              index={index}
-              onToggle={onToggle}
-              onDelete={onDelete}
-            />
+            <div key={todo.id} ref={registerItem(index)}>
+              {showsDropLineBefore(index) && <div className="h-0.5 mb-2 rounded-full bg-blue-300" />}
+              <div className={`flex items-stretch ${draggingIndex === index ? 'opacity-60' : ''}`}>
+                {canReorder && (
+                  <button
+                    {...bindHandle(index)}
+                    onKeyDown={(e) => handleReorderKey(e, index)}
+                    className="flex-shrink-0 w-8 flex items-center justify-center rounded-l-xl text-white/40 hover:text-white/80 cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-white/40"
+                    aria-label={`Reorder ${todo.text}. Use the arrow keys to move it`}
+                  >
+                    <GripVertical className="w-4 h-4" />
+                  </button>
+                )}
+                <div className="flex-1 min-w-0">
+                  <TodoItem
+                    todo={todo}
+                    index={index}
+                    onToggle={onToggle}
+                    onDelete={onDelete}
+                    onRecurrenceChange={onRecurrenceChange}
+                    onAddSubtask={onAddSubtask}
+                    onToggleSubtask={onToggleSubtask}
+                    onDeleteSubtask={onDeleteSubtask}
+                    onOpenDetails={onOpenDetails}
+                    highlight={view.search}
+                  />
+                </div>
+              </div>
+            </div>
           ))}
         </AnimatePresence>
+        {showsDropLineAtEnd && <div className="h-0.5 rounded-full bg-blue-300" />}
       </div>
 
-      {filteredTodos.length === 0 && filter !== 'all' && (
+      {filteredTodos.length === 0 && (hasActiveFilters(view) || !!view.search) && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           className="text-center py-8"
         >
           <p className="text-white/70">
-            No {filter} tasks found
+            {view.search
+              ? `No ${describeTaskQuery(view, 0)} match "${view.search}"`
+              : `No ${describeTaskQuery(view, 0)} found`}
           </p>
         </motion.div>
       )}
@@ -0,0 +1,59 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 5000
+}) => {
+  useEffect(() => {
+    if (!message) return;
+
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onDismiss]);
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-32 left-1/2 transform -translate-x-1/2 z-30 w-full max-w-sm px-4"
+          role="status"
+          aria-live="polite"
+        >
+          <div className="flex items-center justify-between bg-gray-900/90 backdrop-blur-md rounded-xl border border-white/20 px-4 py-3 shadow-xl">
+            <p className="text-white text-sm truncate mr-3">{message}</p>
+            <div className="flex items-center space-x-1 flex-shrink-0">
+              <button
+                onClick={onUndo}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 transition-colors text-yellow-300 text-sm font-medium touch-manipulation"
+              >
+                <Undo2 className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
+              <button
+                onClick={onDismiss}
+                className="p-1.5 rounded-full hover:bg-white/20 transition-colors"
+                aria-label="Dismiss"
+              >
+                <X className="w-4 h-4 text-white/70" />
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
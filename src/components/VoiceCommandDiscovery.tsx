@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Lightbulb, Target, Trash2, CheckCircle, Plus } from 'lucide-react';
+import { Lightbulb, Trash2, CheckCircle, Plus, Pencil } from 'lucide-react';
+import { CommandCategory, getCommandSuggestions } from '../utils/commands';
 
 interface VoiceCommandDiscoveryProps {
   onCommandSuggestion: (command: string) => void;
@@ -9,13 +10,13 @@ interface VoiceCommandDiscoveryProps {
   hasCompletedTasks: boolean;
 }
 
-interface CommandSuggestion {
-  command: string;
-  description: string;
-  icon: React.ReactNode;
-  category: 'create' | 'manage' | 'complete' | 'delete';
-  priority: number;
-}
+const CATEGORY_ICONS: Record<CommandCategory, React.ReactNode> = {
+  create: <Plus className="w-4 h-4" />,
+  complete: <CheckCircle className="w-4 h-4" />,
+  delete: <Trash2 className="w-4 h-4" />,
+  manage: <Pencil className="w-4 h-4" />,
+  view: <Lightbulb className="w-4 h-4" />
+};
 
 export const VoiceCommandDiscovery: React.FC<VoiceCommandDiscoveryProps> = ({
   onCommandSuggestion,
@@ -25,71 +26,19 @@ export const VoiceCommandDiscovery: React.FC<VoiceCommandDiscoveryProps> = ({
 }) => {
   const [currentSuggestion, setCurrentSuggestion] = useState(0);
 
-  const allCommands: CommandSuggestion[] = [
-    {
-      command: "Add buy groceries",
-      description: "Create a new task",
-      icon: <Plus className="w-4 h-4" />,
-      category: 'create',
-      priority: 1
-    },
-    {
-      command: "Add call mom high priority",
-      description: "Create high priority task",
-      icon: <Target className="w-4 h-4" />,
-      category: 'create',
-      priority: 2
-    },
-    {
-      command: "Complete task 1",
-      description: "Mark task as done",
-      icon: <CheckCircle className="w-4 h-4" />,
-      category: 'complete',
-      priority: todoCount > 0 ? 3 : 8
-    },
-    {
-      command: "Done buy groceries",
-      description: "Complete by task name",
-      icon: <CheckCircle className="w-4 h-4" />,
-      category: 'complete',
-      priority: todoCount > 0 ? 4 : 9
-    },
-    {
-      command: "Delete task 1",
-      description: "Remove a task",
-      icon: <Trash2 className="w-4 h-4" />,
-      category: 'delete',
-      priority: todoCount > 0 ? 5 : 10
-    },
-    {
-      command: "Clear all",
-      description: "Remove all tasks",
-      icon: <Trash2 className="w-4 h-4" />,
-      category: 'delete',
-      priority: todoCount > 2 ? 6 : 11
-    },
-    {
-      command: "Remind me to workout",
-      description: "Natural language task",
-      icon: <Lightbulb className="w-4 h-4" />,
-      category: 'create',
-      priority: 7
-    }
-  ];
+  const allCommands = getCommandSuggestions();
 
   // Filter and sort commands based on current app state
   const relevantCommands = allCommands
     .filter(cmd => {
-      if (cmd.category === 'complete' && todoCount === 0) return false;
-      if (cmd.category === 'delete' && todoCount === 0) return false;
-      if (cmd.command === "Clear all" && todoCount < 2) return false;
+      if (todoCount < (cmd.minTodos ?? 0)) return false;
       // Show different commands if user has completed tasks
       if (hasCompletedTasks && cmd.category === 'create') {
-        return cmd.priority <= 2; // Show fewer create commands
+        return cmd.rank <= 2; // Show fewer create commands
       }
       return true;
     })
-    .sort((a, b) => a.priority - b.priority)
+    .sort((a, b) => a.rank - b.rank)
     .slice(0, 5);
 
   useEffect(() => {
@@ -163,8 +112,8 @@ export const VoiceCommandDiscovery: React.FC<VoiceCommandDiscoveryProps> = ({
           >
             {relevantCommands.slice(currentSuggestion, currentSuggestion + 3).map((cmd, index) => (
               <motion.button
-                key={cmd.command}
-                onClick={() => handleCommandClick(cmd.command)}
+                key={cmd.example}
+                onClick={() => handleCommandClick(cmd.example)}
                 className={`w-full p-3 rounded-lg ${getCategoryBg(cmd.category)} border border-white/10 hover:border-white/30 transition-all duration-200 group`}
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
@@ -174,11 +123,11 @@ export const VoiceCommandDiscovery: React.FC<VoiceCommandDiscoveryProps> = ({
               >
                 <div className="flex items-center space-x-3">
                   <div className={`p-2 rounded-full bg-gradient-to-r ${getCategoryColor(cmd.category)}`}>
-                    {cmd.icon}
+                    {CATEGORY_ICONS[cmd.category]}
                   </div>
                   <div className="flex-1 text-left">
                     <p className="text-white font-medium text-sm group-hover:text-white/90">
-                      "{cmd.command}"
+                      "{cmd.example}"
                     </p>
                     <p className="text-white/60 text-xs mt-0.5">
                       {cmd.description}
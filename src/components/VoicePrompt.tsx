@@ -0,0 +1,91 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageCircleQuestion, X, Mic } from 'lucide-react';
+
+interface VoicePromptProps {
+  isOpen: boolean;
+  question: string;
+  choices?: string[];
+  isListening: boolean;
+  // Shows a bar that runs out when an unanswered question cancels itself
+  timeoutMs?: number;
+  onChoose?: (index: number) => void;
+  onCancel: () => void;
+}
+
+export const VoicePrompt: React.FC<VoicePromptProps> = ({
+  isOpen,
+  question,
+  choices = [],
+  isListening,
+  timeoutMs,
+  onChoose,
+  onCancel
+}) => {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-40 left-1/2 transform -translate-x-1/2 z-10 w-full max-w-sm px-4"
+          role="dialog"
+          aria-live="assertive"
+        >
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-4 shadow-xl">
+            <div className="flex items-start justify-between mb-3">
+              <div className="flex items-start space-x-2">
+                <MessageCircleQuestion className="w-5 h-5 text-yellow-300 flex-shrink-0 mt-0.5" />
+                <p className="text-white font-medium text-sm">{question}</p>
+              </div>
+              <button
+                onClick={onCancel}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                aria-label="Cancel"
+              >
+                <X className="w-4 h-4 text-white/70" />
+              </button>
+            </div>
+
+            {choices.length > 0 && (
+              <div className="space-y-2">
+                {choices.map((choice, index) => (
+                  <motion.button
+                    key={`${index}-${choice}`}
+                    onClick={() => onChoose?.(index)}
+                    className="w-full flex items-center space-x-3 p-3 rounded-lg bg-white/5 border border-white/10 hover:border-white/30 transition-all duration-200 touch-manipulation text-left"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <span className="w-6 h-6 rounded-full bg-white/20 text-white text-xs flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                    <span className="text-white/90 text-sm flex-1">{choice}</span>
+                  </motion.button>
+                ))}
+              </div>
+            )}
+
+            {timeoutMs !== undefined && (
+              <div className="mt-3 h-1 rounded-full bg-white/10 overflow-hidden">
+                <motion.div
+                  key={question}
+                  className="h-full bg-yellow-300/70"
+                  initial={{ width: '100%' }}
+                  animate={{ width: '0%' }}
+                  transition={{ duration: timeoutMs / 1000, ease: 'linear' }}
+                />
+              </div>
+            )}
+
+            <div className="mt-3 flex items-center justify-center space-x-2 text-white/60 text-xs">
+              <Mic className={`w-3 h-3 ${isListening ? 'text-green-400' : ''}`} />
+              <p>{isListening ? 'Listening for your answer...' : 'Tap the microphone to answer'}</p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,24 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Settings, Mic, Volume2, Globe, Gauge, X, Save } from 'lucide-react';
+import { VoiceSettings } from '../types';
+import { SUPPORTED_GRAMMAR_LANGUAGES } from '../utils/grammars';
 
 interface VoiceSettingsProps {
   isOpen: boolean;
+  settings: VoiceSettings;
   onClose: () => void;
   onSettingsChange: (settings: VoiceSettings) => void;
 }
 
-export interface VoiceSettings {
-  language: string;
-  sensitivity: number;
-  voiceRate: number;
-  voicePitch: number;
-  voiceVolume: number;
-  autoStart: boolean;
-  continuousMode: boolean;
-  noiseSuppression: boolean;
-  echoCancellation: boolean;
-}
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  language: 'en-US',
+  sensitivity: 0.5,
+  voiceRate: 1.0,
+  voicePitch: 1.0,
+  voiceVolume: 0.8,
+  autoStart: false,
+  continuousMode: false,
+  wakePhrase: 'hey Voicey',
+  sleepAfter: 5,
+  noiseSuppression: true,
+  echoCancellation: true
+};
+
+const SETTINGS_KEY = 'voice-todo-settings';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  const savedSettings = localStorage.getItem(SETTINGS_KEY);
+  if (!savedSettings) return DEFAULT_VOICE_SETTINGS;
+  
+  try {
+    return { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(savedSettings) };
+  } catch (error) {
+    console.error('Error loading voice settings:', error);
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const hasCommandGrammar = (code: string): boolean => {
+  return SUPPORTED_GRAMMAR_LANGUAGES.includes(code.split('-')[0]);
+};
 
 const languages = [
   { code: 'en-US', name: 'English (US)', flag: '🇺🇸' },
@@ -37,47 +64,17 @@ const languages = [
   { code: 'ru-RU', name: 'Russian', flag: '🇷🇺' }
 ];
 
+// Controlled by the app, which saves the settings, so changes made by voice show up here too
 export const VoiceSettingsPanel: React.FC<VoiceSettingsProps> = ({
   isOpen,
+  settings,
   onClose,
   onSettingsChange
 }) => {
-  const [settings, setSettings] = useState<VoiceSettings>({
-    language: 'en-US',
-    sensitivity: 0.5,
-    voiceRate: 1.0,
-    voicePitch: 1.0,
-    voiceVolume: 0.8,
-    autoStart: false,
-    continuousMode: false,
-    noiseSuppression: true,
-    echoCancellation: true
-  });
-
   const [activeTab, setActiveTab] = useState<'speech' | 'voice' | 'advanced'>('speech');
 
-  useEffect(() => {
-    // Load settings from localStorage
-    const savedSettings = localStorage.getItem('voice-todo-settings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(prev => ({ ...prev, ...parsed }));
-      } catch (error) {
-        console.error('Error loading voice settings:', error);
-      }
-    }
-  }, []);
-
   const handleSettingChange = (key: keyof VoiceSettings, value: any) => {
-    const newSettings = { ...settings, [key]: value };
-    setSettings(newSettings);
-    
-    // Save to localStorage
-    localStorage.setItem('voice-todo-settings', JSON.stringify(newSettings));
-    
-    // Notify parent component
-    onSettingsChange(newSettings);
+    onSettingsChange({ ...settings, [key]: value });
   };
 
   const handleSave = () => {
@@ -101,7 +98,8 @@ export const VoiceSettingsPanel: React.FC<VoiceSettingsProps> = ({
     min, 
     max, 
     step, 
-    unit = '' 
+    unit = '',
+    digits = 2
   }: {
     label: string;
     value: number;
@@ -110,11 +108,12 @@ export const VoiceSettingsPanel: React.FC<VoiceSettingsProps> = ({
     max: number;
     step: number;
     unit?: string;
+    digits?: number;
   }) => (
     <div className="space-y-2">
       <div className="flex justify-between items-center">
         <label className="text-white text-sm font-medium">{label}</label>
-        <span className="text-white/60 text-xs">{value.toFixed(2)}{unit}</span>
+        <span className="text-white/60 text-xs">{value.toFixed(digits)}{unit}</span>
       </div>
       <div className="relative">
         <input
@@ -245,6 +244,11 @@ export const VoiceSettingsPanel: React.FC<VoiceSettingsProps> = ({
                           </option>
                         ))}
                       </select>
+                      {!hasCommandGrammar(settings.language) && (
+                        <p className="text-xs text-yellow-300">
+                          Voice commands in this language are not available yet. Say them in English.
+                        </p>
+                      )}
                     </div>
 
                     <SliderControl
@@ -260,9 +264,35 @@ export const VoiceSettingsPanel: React.FC<VoiceSettingsProps> = ({
                       label="Continuous Mode"
                       checked={settings.continuousMode}
                       onChange={(checked) => handleSettingChange('continuousMode', checked)}
-                      description="Keep listening after each command"
+                      description="Listen hands-free for the wake phrase"
                     />
 
+                    {settings.continuousMode && (
+                      <>
+                        <div className="space-y-2">
+                          <label className="text-white text-sm font-medium">Wake Phrase</label>
+                          <input
+                            type="text"
+                            value={settings.wakePhrase}
+                            onChange={(e) => handleSettingChange('wakePhrase', e.target.value)}
+                            className="w-full p-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder={DEFAULT_VOICE_SETTINGS.wakePhrase}
+                          />
+                        </div>
+
+                        <SliderControl
+                          label="Sleep After"
+                          value={settings.sleepAfter}
+                          onChange={(value) => handleSettingChange('sleepAfter', value)}
+                          min={1}
+                          max={30}
+                          step={1}
+                          unit=" min"
+                          digits={0}
+                        />
+                      </>
+                    )}
+
                     <ToggleSwitch
                       label="Auto Start"
                       checked={settings.autoStart}
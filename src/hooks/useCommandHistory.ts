@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadCommandHistory, saveCommandHistory } from '../utils/storage';
+
+const HISTORY_LIMIT = 50;
+
+// Typed commands, newest first, kept between visits; repeating one moves it back to the top
+export const useCommandHistory = () => {
+  const [history, setHistory] = useState<string[]>(loadCommandHistory);
+
+  useEffect(() => {
+    saveCommandHistory(history);
+  }, [history]);
+
+  const addToHistory = useCallback((command: string) => {
+    setHistory(prev => [command, ...prev.filter(entry => entry !== command)].slice(0, HISTORY_LIMIT));
+  }, []);
+
+  return {
+    history,
+    addToHistory
+  };
+};
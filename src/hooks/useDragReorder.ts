@@ -0,0 +1,69 @@
+import { useRef, useState } from 'react';
+
+interface DragReorderState {
+  fromIndex: number;
+  // Where the task lands among the others once it is dropped
+  toIndex: number;
+}
+
+interface DragReorderOptions {
+  onReorder: (fromIndex: number, toIndex: number) => void;
+}
+
+/**
+ * Drag handles for reordering a list with mouse, pen or touch. Handles take
+ * the pointer for themselves, so swiping the rest of an item still completes
+ * or deletes it.
+ */
+export const useDragReorder = ({ onReorder }: DragReorderOptions) => {
+  const [dragState, setDragState] = useState<DragReorderState | null>(null);
+  const itemsRef = useRef<(HTMLElement | null)[]>([]);
+
+  // Counts the other items whose middle is above the pointer
+  const getDropIndex = (fromIndex: number, y: number): number => {
+    return itemsRef.current.filter((item, index) => {
+      if (!item || index === fromIndex) return false;
+      const rect = item.getBoundingClientRect();
+      return y > rect.top + rect.height / 2;
+    }).length;
+  };
+
+  const registerItem = (index: number) => (element: HTMLElement | null) => {
+    itemsRef.current[index] = element;
+  };
+
+  const finishDrag = () => {
+    if (dragState && dragState.fromIndex !== dragState.toIndex) {
+      onReorder(dragState.fromIndex, dragState.toIndex);
+    }
+    setDragState(null);
+  };
+
+  const bindHandle = (index: number) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragState({ fromIndex: index, toIndex: index });
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      if (dragState?.fromIndex !== index) return;
+      const toIndex = getDropIndex(index, e.clientY);
+      if (toIndex !== dragState.toIndex) {
+        setDragState({ fromIndex: index, toIndex });
+      }
+    },
+    onPointerUp: finishDrag,
+    onPointerCancel: () => setDragState(null),
+    onTouchStart: (e: React.TouchEvent<HTMLElement>) => e.stopPropagation(),
+    onTouchMove: (e: React.TouchEvent<HTMLElement>) => e.stopPropagation(),
+    onTouchEnd: (e: React.TouchEvent<HTMLElement>) => e.stopPropagation(),
+    style: { touchAction: 'none' as const }
+  });
+
+  return {
+    draggingIndex: dragState?.fromIndex ?? null,
+    dropIndex: dragState?.toIndex ?? null,
+    registerItem,
+    bindHandle
+  };
+};
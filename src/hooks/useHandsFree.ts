@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { stripWakePhrase } from '../utils/speech';
+import { VoiceHaptics } from '../utils/haptic';
+
+// idle: listening for the wake phrase, awake: the next phrase is a command, asleep: the microphone is off
+export type HandsFreeState = 'off' | 'idle' | 'awake' | 'asleep';
+
+// How long a bare wake phrase waits for the command that follows it
+export const AWAKE_TIMEOUT = 8000;
+
+export const useHandsFree = (enabled: boolean, wakePhrase: string, sleepAfterMinutes: number) => {
+  const [state, setState] = useState<HandsFreeState>(enabled ? 'idle' : 'off');
+  // Each command starts the sleep timer over
+  const [lastCommandAt, setLastCommandAt] = useState(() => Date.now());
+
+  useEffect(() => {
+    setState(enabled ? 'idle' : 'off');
+  }, [enabled]);
+
+  useEffect(() => {
+    if (state !== 'awake') return;
+
+    const timer = setTimeout(() => setState('idle'), AWAKE_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  // Nothing said for a while, so stop listening until the microphone is tapped
+  useEffect(() => {
+    if (state !== 'idle') return;
+
+    const timer = setTimeout(() => setState('asleep'), sleepAfterMinutes * 60000);
+    return () => clearTimeout(timer);
+  }, [state, lastCommandAt, sleepAfterMinutes]);
+
+  /**
+   * Decides what to do with a finished transcript: returns the command to run,
+   * or undefined while idle and the wake phrase was not said.
+   */
+  const hear = useCallback((transcript: string): string | undefined => {
+    if (state === 'off' || state === 'asleep') return transcript;
+
+    if (state === 'awake') {
+      setState('idle');
+      setLastCommandAt(Date.now());
+      return transcript;
+    }
+
+    const command = stripWakePhrase(transcript, wakePhrase);
+    if (command === undefined) return undefined;
+
+    VoiceHaptics.voiceDetected();
+    if (!command) {
+      setState('awake');
+      return undefined;
+    }
+
+    setLastCommandAt(Date.now());
+    return command;
+  }, [state, wakePhrase]);
+
+  // Tapping the microphone skips the wake phrase
+  const wake = useCallback(() => {
+    if (enabled) setState('awake');
+  }, [enabled]);
+
+  const sleep = useCallback(() => {
+    if (enabled) setState('asleep');
+  }, [enabled]);
+
+  return {
+    state,
+    isActive: state === 'idle' || state === 'awake',
+    hear,
+    wake,
+    sleep
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ListView, SortMode } from '../types';
+import { DEFAULT_LIST_VIEW, parseListView, serializeListView } from '../utils/filters';
+import { loadListSorts, saveListSort } from '../utils/storage';
+
+// Each category is its own list for sorting, and '' is the list of all tasks
+const getListKey = (category?: string): string => category?.toLowerCase() ?? '';
+
+const getRememberedSort = (category?: string): SortMode => {
+  return loadListSorts()[getListKey(category)] ?? DEFAULT_LIST_VIEW.sort;
+};
+
+// Filters and sort for the list, kept in the URL so a filtered view can be bookmarked or shared.
+// A sort in the URL wins; otherwise each list opens in the sort it was last given.
+export const useListView = () => {
+  const [view, setView] = useState<ListView>(() => {
+    const initial = parseListView(window.location.search);
+    return new URLSearchParams(window.location.search).has('sort')
+      ? initial
+      : { ...initial, sort: getRememberedSort(initial.category) };
+  });
+
+  useEffect(() => {
+    saveListSort(getListKey(view.category), view.sort);
+  }, [view.category, view.sort]);
+
+  useEffect(() => {
+    const search = serializeListView(view);
+    if (search !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    const handlePopState = () => setView(parseListView(window.location.search));
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const updateView = useCallback((changes: Partial<ListView>) => {
+    setView(prev => {
+      const switchesList = 'category' in changes && getListKey(changes.category) !== getListKey(prev.category);
+      return {
+        ...prev,
+        ...changes,
+        sort: changes.sort ?? (switchesList ? getRememberedSort(changes.category) : prev.sort)
+      };
+    });
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setView(prev => ({ ...DEFAULT_LIST_VIEW, sort: prev.category ? getRememberedSort() : prev.sort }));
+  }, []);
+
+  return {
+    view,
+    updateView,
+    resetFilters
+  };
+};
@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Todo } from '../types';
+import {
+  ReminderActionMessage,
+  getNextReminderDelay,
+  getReminderPermission,
+  isReminderActionMessage,
+  isReminderDue,
+  parseReminderLink,
+  requestReminderPermission,
+  showReminderNotification
+} from '../utils/reminders';
+
+interface ReminderHandlers {
+  // The notification is up, so the reminder should not go off again
+  onShown: (id: string) => void;
+  onAction: (message: ReminderActionMessage) => void;
+}
+
+/**
+ * Sends due reminders as notifications while the app is open and passes on
+ * the snooze and complete buttons. Reminders that cannot be notified come
+ * back as `dueReminders` for the in-app banner.
+ */
+export const useReminders = (todos: Todo[], handlers: ReminderHandlers) => {
+  const [permission, setPermission] = useState(getReminderPermission);
+  const [notificationsFailed, setNotificationsFailed] = useState(false);
+  // Re-checks which reminders are due when the next one goes off
+  const [now, setNow] = useState(() => new Date());
+  // Read before the list view rewrites the URL
+  const [pendingLink, setPendingLink] = useState(() => parseReminderLink(window.location.search));
+  const handlersRef = useRef(handlers);
+  const showingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  const canNotify = permission === 'granted' && !notificationsFailed;
+  const hasPendingReminders = todos.some(todo => todo.reminderAt && !todo.completed);
+
+  useEffect(() => {
+    if (!canNotify) return;
+
+    todos.filter(todo => isReminderDue(todo, now) && !showingRef.current.has(todo.id)).forEach(todo => {
+      showingRef.current.add(todo.id);
+      showReminderNotification(todo).then(shown => {
+        showingRef.current.delete(todo.id);
+        if (shown) {
+          handlersRef.current.onShown(todo.id);
+        } else {
+          setNotificationsFailed(true);
+        }
+      });
+    });
+  }, [todos, now, canNotify]);
+
+  useEffect(() => {
+    const delay = getNextReminderDelay(todos, now);
+    if (delay === undefined) return;
+
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [todos, now]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (isReminderActionMessage(event.data)) {
+        handlersRef.current.onAction(event.data);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Saved tasks load after the first render
+  useEffect(() => {
+    if (pendingLink && todos.some(todo => todo.id === pendingLink.todoId)) {
+      handlersRef.current.onAction(pendingLink);
+      setPendingLink(undefined);
+    }
+  }, [todos, pendingLink]);
+
+  const requestPermission = useCallback(async () => {
+    setPermission(await requestReminderPermission());
+    setNotificationsFailed(false);
+  }, []);
+
+  return {
+    permission,
+    canNotify,
+    // Browsers only ask for permission after a tap, so the banner offers it once a reminder is set
+    needsPermission: permission === 'default' && hasPendingReminders,
+    dueReminders: canNotify ? [] : todos.filter(todo => isReminderDue(todo, now)),
+    requestPermission
+  };
+};
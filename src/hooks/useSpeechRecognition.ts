@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { startsCommand } from '../utils/commands';
 
 interface VoiceAnalytics {
   totalAttempts: number;
@@ -13,6 +14,8 @@ interface UseSpeechRecognitionReturn {
   isSupported: boolean;
   transcript: string;
   confidence: number;
+  // The transcript will not change any more; continuous sessions keep listening after it
+  isFinal: boolean;
   error: string | null;
   isVoiceDetected: boolean;
   dynamicConfidenceThreshold: number;
@@ -23,10 +26,11 @@ interface UseSpeechRecognitionReturn {
   adjustConfidenceThreshold: (threshold: number) => void;
 }
 
-export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
+export const useSpeechRecognition = (language: string = 'en-US', continuous: boolean = false): UseSpeechRecognitionReturn => {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [confidence, setConfidence] = useState(0);
+  const [isFinal, setIsFinal] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isVoiceDetected, setIsVoiceDetected] = useState(false);
   const [dynamicConfidenceThreshold, setDynamicConfidenceThreshold] = useState(0.5);
@@ -38,6 +42,10 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
   });
   
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const continuousRef = useRef(continuous);
+  continuousRef.current = continuous;
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const retryCountRef = useRef(0);
   const confidenceHistoryRef = useRef<number[]>([]);
@@ -130,7 +138,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
 
     recognition.continuous = false;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = languageRef.current;
     recognition.maxAlternatives = 3; // Increase alternatives for better accuracy
 
     recognition.onstart = () => {
@@ -139,6 +147,9 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
       retryCountRef.current = 0;
       detectVoiceActivity();
       
+      // Hands-free sessions listen until stopped
+      if (continuousRef.current) return;
+      
       // Set timeout for maximum listening duration
       timeoutRef.current = setTimeout(() => {
         if (recognitionRef.current) {
@@ -170,6 +181,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
         
         setTranscript(bestResult.transcript);
         setConfidence(bestConfidence);
+        setIsFinal(result.isFinal);
         
         // Update analytics with successful recognition
         if (result.isFinal) {
@@ -198,6 +210,12 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
       }
       
       const errorType = event.error;
+      
+      // Silence is normal between hands-free commands; the session is simply started again
+      if (continuousRef.current && (errorType === 'no-speech' || errorType === 'aborted')) {
+        return;
+      }
+      
       updateAnalytics(false, undefined, errorType);
       
       // Enhanced error handling with retry logic
@@ -244,9 +262,10 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
 
   // Helper function to check for common voice command keywords
   const hasKeywords = (text: string): boolean => {
-    const keywords = ['add', 'create', 'new', 'todo', 'complete', 'done', 'delete', 'remove', 'clear'];
+    const keywords = ['add', 'create', 'new', 'todo', 'complete', 'done', 'delete', 'remove', 'clear', 'change', 'rename', 'edit', 'undo', 'redo'];
     const lowerText = text.toLowerCase();
-    return keywords.some(keyword => lowerText.includes(keyword));
+    return keywords.some(keyword => lowerText.includes(keyword)) ||
+      startsCommand(lowerText.trim(), languageRef.current);
   };
 
   const startListening = () => {
@@ -260,8 +279,11 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     setError(null);
     setTranscript('');
     setConfidence(0);
+    setIsFinal(false);
     setIsVoiceDetected(false);
     retryCountRef.current = 0;
+    recognitionRef.current.lang = language;
+    recognitionRef.current.continuous = continuous;
     
     try {
       recognitionRef.current.start();
@@ -289,6 +311,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
   const resetTranscript = () => {
     setTranscript('');
     setConfidence(0);
+    setIsFinal(false);
     setError(null);
     setIsVoiceDetected(false);
   };
@@ -298,6 +321,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     isSupported,
     transcript,
     confidence,
+    isFinal,
     error,
     isVoiceDetected,
     dynamicConfidenceThreshold,
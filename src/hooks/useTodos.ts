@@ -1,157 +1,873 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { nanoid } from 'nanoid';
-import { Todo, VoiceCommand } from '../types';
+import { Todo, VoiceCommand, CommandFeedback, VoiceFollowUp, ListView, Subtask } from '../types';
 import { loadTodos, saveTodos } from '../utils/storage';
-import { speak } from '../utils/speech';
+import { speak, getBatchSummary, getTaskSummary, getTaskReadout, parseVoiceCommands, parseTaskDetails, fillMissingSlot } from '../utils/speech';
+import { describeDueDate } from '../utils/dates';
+import { VoiceHaptics } from '../utils/haptic';
+import { findBestMatch, MatchResult } from '../utils/matching';
+import { parseChoice } from '../utils/numbers';
+import { getGrammar } from '../utils/grammars';
+import { DEFAULT_LIST_VIEW, getVisibleTodos, sortTodos, moveTodoNextTo } from '../utils/filters';
+import { parseRRule, describeRecurrence, getFirstOccurrence, getNextOccurrence } from '../utils/recurrence';
+import { CommandContext, AppSettings, SettingsChange, getCommandDefinition, getSlotQuestion, getConfirmation } from '../utils/commands';
 
-export const useTodos = () => {
+// Snapshot taken before a change, so undo can restore it; only the parts that changed are kept
+interface HistorySnapshot {
+  todos?: Todo[];
+  settings?: AppSettings;
+}
+
+interface HistoryEntry extends HistorySnapshot {
+  label: string;
+}
+
+interface TodoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const HISTORY_LIMIT = 50;
+
+// How long a confirmation question waits for yes or no
+export const CONFIRMATION_TIMEOUT = 10000;
+
+// Tasks read per page of a spoken list, and how long "next" is waited for
+const READING_PAGE_SIZE = 5;
+export const READING_TIMEOUT = 10000;
+
+export const useTodos = (
+  settings: AppSettings,
+  onSettingsChange: (settings: AppSettings) => void,
+  view: ListView = DEFAULT_LIST_VIEW,
+  onViewChange: (changes: Partial<ListView>) => void = () => {}
+) => {
+  const language = settings.voice.language;
   const [todos, setTodos] = useState<Todo[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [followUp, setFollowUp] = useState<VoiceFollowUp | null>(null);
+  const [history, setHistory] = useState<TodoHistory>({ past: [], future: [] });
+  // The last thing said aloud, for the on-screen transcript
+  const [spokenText, setSpokenText] = useState('');
+  // Collects feedback while a voice batch runs so it can be spoken once
+  const feedbackRef = useRef<CommandFeedback[] | null>(null);
+  const batchRememberedRef = useRef(false);
+  // The tasks "it", "that" and "them" refer to: those last added, changed or read out
+  const recentTodosRef = useRef<Todo[]>([]);
+  const batchNotedRef = useRef(false);
+  // Settings changed by voice apply to the reply of the same command, before the next render
+  const settingsRef = useRef(settings);
+  // Likewise each command of a batch sees the list as the one before it left it
+  const todosRef = useRef<Todo[]>([]);
+
+  const updateTodos = (update: Todo[] | ((prev: Todo[]) => Todo[])) => {
+    todosRef.current = typeof update === 'function' ? update(todosRef.current) : update;
+    setTodos(todosRef.current);
+  };
 
   useEffect(() => {
-    const savedTodos = loadTodos();
-    setTodos(savedTodos);
+    updateTodos(loadTodos());
   }, []);
 
   useEffect(() => {
     saveTodos(todos);
   }, [todos]);
 
-  const addTodo = (text: string, priority: Todo['priority'] = 'low', category?: string) => {
-    const newTodo: Todo = {
-      id: nanoid(),
-      text: text.trim(),
-      completed: false,
-      createdAt: new Date(),
-      priority,
-      category
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // Replies always show on screen; they are only silent while sound is off before and after the command,
+  // so "turn off sound" and "turn on sound" are both still heard
+  const say = (text: string): Promise<void> => {
+    const { voice, mobile } = settingsRef.current;
+    setSpokenText(text);
+    if (!settings.mobile.voiceConfirmation && !mobile.voiceConfirmation) {
+      return Promise.resolve();
+    }
+    return speak(text, voice.voiceRate, voice.voicePitch);
+  };
+
+  const announce = (feedback: CommandFeedback) => {
+    if (feedbackRef.current) {
+      feedbackRef.current.push(feedback);
+    } else {
+      say(feedback.message);
+    }
+  };
+
+  // Tasks touched by one voice batch are "them" together; a new batch starts over
+  const noteRecent = (...touched: Todo[]) => {
+    const inBatch = !!feedbackRef.current;
+    recentTodosRef.current = inBatch && batchNotedRef.current
+      ? [...recentTodosRef.current.filter(todo => !touched.some(t => t.id === todo.id)), ...touched]
+      : touched;
+    if (inBatch) {
+      batchNotedRef.current = true;
+    }
+  };
+
+  const findTodo = (id: string): Todo | undefined => {
+    return todosRef.current.find(t => t.id === id);
+  };
+
+  // Call before changing the list or settings; a whole voice batch undoes as one step
+  const remember = (label: string, snapshot: HistorySnapshot = { todos: todosRef.current }) => {
+    if (feedbackRef.current && batchRememberedRef.current) {
+      // Later changes in the batch add what they touch to its entry, keeping the earliest state
+      setHistory(prev => {
+        const last = prev.past[prev.past.length - 1];
+        return last ? { ...prev, past: [...prev.past.slice(0, -1), { ...snapshot, ...last }] } : prev;
+      });
+      return;
+    }
+    if (feedbackRef.current) {
+      batchRememberedRef.current = true;
+    }
+    
+    setHistory(prev => ({
+      past: [...prev.past, { label, ...snapshot }].slice(-HISTORY_LIMIT),
+      future: []
+    }));
+  };
+
+  const changeSettings = (changes: SettingsChange, label: string) => {
+    const current = settingsRef.current;
+    const next = {
+      voice: { ...current.voice, ...changes.voice },
+      mobile: { ...current.mobile, ...changes.mobile }
     };
     
-    setTodos(prev => [newTodo, ...prev]);
-    speak(`Added task: ${text}`);
+    remember(label, { settings: current });
+    settingsRef.current = next;
+    onSettingsChange(next);
+  };
+
+  // Puts back what the entry saved and returns the current state of the same parts, for the other stack
+  const restore = (entry: HistoryEntry): HistoryEntry => {
+    const current: HistoryEntry = {
+      label: entry.label,
+      ...(entry.todos && { todos: todosRef.current }),
+      ...(entry.settings && { settings: settingsRef.current })
+    };
+    
+    if (entry.todos) {
+      updateTodos(entry.todos);
+    }
+    if (entry.settings) {
+      settingsRef.current = entry.settings;
+      onSettingsChange(entry.settings);
+    }
+    return current;
+  };
+
+  const undo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) {
+      announce({ action: 'undo', message: 'Nothing to undo' });
+      return;
+    }
+    
+    const current = restore(entry);
+    setHistory(prev => ({
+      past: prev.past.slice(0, -1),
+      future: [current, ...prev.future]
+    }));
+    announce({ action: 'undo', message: `Undid ${entry.label}` });
+  };
+
+  const redo = () => {
+    const entry = history.future[0];
+    if (!entry) {
+      announce({ action: 'redo', message: 'Nothing to redo' });
+      return;
+    }
+    
+    const current = restore(entry);
+    setHistory(prev => ({
+      past: [...prev.past, current],
+      future: prev.future.slice(1)
+    }));
+    announce({ action: 'redo', message: `Redid ${entry.label}` });
+  };
+
+  const createTodo = (
+    text: string,
+    priority: Todo['priority'] = 'low',
+    category?: string,
+    dueDate?: Date,
+    recurrence?: string,
+    reminderAt?: Date
+  ): Todo => ({
+    id: nanoid(),
+    text: text.trim(),
+    completed: false,
+    createdAt: new Date(),
+    priority,
+    category,
+    dueDate,
+    recurrence,
+    reminderAt
+  });
+
+  // The instance after a recurring task; none when it does not repeat or a later one is already open
+  const createNextOccurrence = (todo: Todo): Todo | undefined => {
+    const rule = todo.recurrence ? parseRRule(todo.recurrence) : undefined;
+    const hasOpenInstance = todosRef.current.some(t =>
+      t.id !== todo.id && !t.completed && t.text === todo.text && t.recurrence === todo.recurrence
+    );
+    if (!rule || hasOpenInstance) return undefined;
+    
+    const dueDate = getNextOccurrence(rule, todo.dueDate ?? new Date());
+    return {
+      ...createTodo(todo.text, todo.priority, todo.category, dueDate, todo.recurrence),
+      subtasks: todo.subtasks?.map(step => ({ id: nanoid(), text: step.text, completed: false }))
+    };
+  };
+
+  const addTodo = (
+    text: string,
+    priority: Todo['priority'] = 'low',
+    category?: string,
+    dueDate?: Date,
+    recurrence?: string,
+    reminderAt?: Date
+  ) => {
+    const newTodo = createTodo(text, priority, category, dueDate, recurrence, reminderAt);
+    const rule = recurrence ? parseRRule(recurrence) : undefined;
+    
+    remember(`add ${text}`);
+    updateTodos(prev => [newTodo, ...prev]);
+    noteRecent(newTodo);
+    announce({
+      action: 'add',
+      taskText: text,
+      message: reminderAt
+        ? `Added task: ${text}. I'll remind you ${describeDueDate(reminderAt)}`
+        : rule
+          ? `Added task: ${text}, ${describeRecurrence(rule)}`
+          : dueDate ? `Added task: ${text}, due ${describeDueDate(dueDate)}` : `Added task: ${text}`
+    });
+  };
+
+  // Snoozing, dismissing or showing a reminder is not an undo step
+  const setTodoReminder = (id: string, reminderAt?: Date) => {
+    updateTodos(prev => prev.map(t => t.id === id ? { ...t, reminderAt } : t));
   };
 
   const completeTodo = (id: string) => {
-    setTodos(prev => prev.map(todo => 
-      todo.id === id 
-        ? { ...todo, completed: true, completedAt: new Date() }
-        : todo
-    ));
+    const todo = findTodo(id);
+    const next = todo && !todo.completed ? createNextOccurrence(todo) : undefined;
+    
+    remember(`complete ${todo?.text ?? 'task'}`);
+    updateTodos(prev => [
+      ...(next ? [next] : []),
+      ...prev.map(todo => 
+        todo.id === id 
+          ? { ...todo, completed: true, completedAt: new Date() }
+          : todo
+      )
+    ]);
     
-    const todo = todos.find(t => t.id === id);
     if (todo) {
-      speak(`Completed task: ${todo.text}`);
+      noteRecent(todo);
+      announce({
+        action: 'complete',
+        taskText: todo.text,
+        message: next?.dueDate
+          ? `Completed task: ${todo.text}. Next one is due ${describeDueDate(next.dueDate)}`
+          : `Completed task: ${todo.text}`
+      });
     }
   };
 
   const deleteTodo = (id: string) => {
-    const todo = todos.find(t => t.id === id);
-    setTodos(prev => prev.filter(t => t.id !== id));
+    const todo = findTodo(id);
+    remember(`delete ${todo?.text ?? 'task'}`);
+    updateTodos(prev => prev.filter(t => t.id !== id));
+    recentTodosRef.current = recentTodosRef.current.filter(t => t.id !== id);
     
     if (todo) {
-      speak(`Deleted task: ${todo.text}`);
+      announce({ action: 'delete', taskText: todo.text, message: `Deleted task: ${todo.text}` });
     }
   };
 
   const clearAllTodos = () => {
-    setTodos([]);
-    speak('All tasks cleared');
+    remember('clear all');
+    updateTodos([]);
+    recentTodosRef.current = [];
+    announce({ action: 'clear', message: 'All tasks cleared' });
   };
 
-  const toggleTodo = (id: string) => {
-    setTodos(prev => prev.map(todo => 
-      todo.id === id 
-        ? { 
-            ...todo, 
-            completed: !todo.completed,
-            completedAt: !todo.completed ? new Date() : undefined
+  const editTodo = (id: string, changes: Partial<Pick<Todo, 'text' | 'priority' | 'category' | 'dueDate' | 'recurrence'>>) => {
+    const todo = findTodo(id);
+    remember(`edit ${todo?.text ?? 'task'}`);
+    updateTodos(prev => prev.map(t => 
+      t.id === id 
+        ? {
+            ...t,
+            text: changes.text?.trim() || t.text,
+            priority: changes.priority ?? t.priority,
+            category: changes.category ?? t.category,
+            dueDate: changes.dueDate ?? t.dueDate,
+            recurrence: changes.recurrence ?? t.recurrence
           }
-        : todo
+        : t
     ));
+    
+    if (todo) {
+      noteRecent({
+        ...todo,
+        text: changes.text?.trim() || todo.text,
+        priority: changes.priority ?? todo.priority,
+        category: changes.category ?? todo.category,
+        dueDate: changes.dueDate ?? todo.dueDate,
+        recurrence: changes.recurrence ?? todo.recurrence
+      });
+      const due = changes.dueDate ? `, due ${describeDueDate(changes.dueDate)}` : '';
+      announce({
+        action: 'edit',
+        taskText: changes.text || todo.text,
+        message: changes.text
+          ? `Changed task: ${todo.text} to ${changes.text}${due}`
+          : `Updated task: ${todo.text}${due}`
+      });
+    }
   };
 
-  const findTodoByText = (text: string): Todo | undefined => {
-    return todos.find(todo => 
-      todo.text.toLowerCase().includes(text.toLowerCase())
-    );
+  const setTodoPriority = (id: string, priority: Todo['priority']) => {
+    const todo = findTodo(id);
+    if (!todo) return;
+    
+    if (todo.priority === priority) {
+      announce({ action: 'set_priority', message: `${todo.text} is already ${priority} priority` });
+      return;
+    }
+    
+    remember(`${priority} priority for ${todo.text}`);
+    updateTodos(prev => prev.map(t => t.id === id ? { ...t, priority } : t));
+    noteRecent({ ...todo, priority });
+    announce({ action: 'set_priority', message: `${todo.text} is now ${priority} priority` });
+  };
+
+  // Moving keeps the order on screen, so a sorted list becomes the manual order first
+  const moveTodo = (id: string, targetId: string, side: 'before' | 'after') => {
+    const todo = findTodo(id);
+    if (!todo || id === targetId) return;
+    
+    remember(`move ${todo.text}`);
+    updateTodos(prev => moveTodoNextTo(sortTodos(prev, view.sort), id, targetId, side));
+    if (view.sort !== 'manual') {
+      onViewChange({ sort: 'manual' });
+    }
+    noteRecent(todo);
+  };
+
+  const updateSubtasks = (todoId: string, update: (subtasks: Subtask[]) => Subtask[]) => {
+    updateTodos(prev => prev.map(t => t.id === todoId ? { ...t, subtasks: update(t.subtasks ?? []) } : t));
+  };
+
+  const addSubtask = (todoId: string, text: string) => {
+    const todo = findTodo(todoId);
+    if (!todo || !text.trim()) return;
+    
+    remember(`add step ${text} to ${todo.text}`);
+    updateSubtasks(todoId, subtasks => [...subtasks, { id: nanoid(), text: text.trim(), completed: false }]);
+    noteRecent(todo);
+  };
+
+  const appendTodoNote = (id: string, note: string) => {
+    const todo = findTodo(id);
+    if (!todo) return;
+    
+    remember(`note on ${todo.text}`);
+    updateTodos(prev => prev.map(t => t.id === id ? { ...t, notes: t.notes ? `${t.notes}\n${note}` : note } : t));
+    noteRecent(todo);
+    announce({ action: 'add_note', message: `Added a note to ${todo.text}` });
+  };
+
+  const setTodoNotes = (id: string, notes: string) => {
+    const todo = findTodo(id);
+    if (!todo || (todo.notes ?? '') === notes) return;
+    
+    remember(`notes on ${todo.text}`);
+    updateTodos(prev => prev.map(t => t.id === id ? { ...t, notes: notes || undefined } : t));
+  };
+
+  const toggleSubtask = (todoId: string, subtaskId: string) => {
+    const step = findTodo(todoId)?.subtasks?.find(s => s.id === subtaskId);
+    if (!step) return;
+    
+    remember(`${step.completed ? 'reopen' : 'check off'} ${step.text}`);
+    updateSubtasks(todoId, subtasks => subtasks.map(s =>
+      s.id === subtaskId
+        ? { ...s, completed: !s.completed, completedAt: !s.completed ? new Date() : undefined }
+        : s
+    ));
+  };
+
+  const deleteSubtask = (todoId: string, subtaskId: string) => {
+    const step = findTodo(todoId)?.subtasks?.find(s => s.id === subtaskId);
+    if (!step) return;
+    
+    remember(`delete step ${step.text}`);
+    updateSubtasks(todoId, subtasks => subtasks.filter(s => s.id !== subtaskId));
+  };
+
+  const completeSubtask = (todoId: string, subtaskId: string) => {
+    const todo = findTodo(todoId);
+    const step = todo?.subtasks?.find(s => s.id === subtaskId);
+    if (!todo || !step) return;
+    
+    remember(`check off ${step.text}`);
+    updateSubtasks(todoId, subtasks => subtasks.map(s =>
+      s.id === subtaskId ? { ...s, completed: true, completedAt: new Date() } : s
+    ));
+    noteRecent(todo);
+    
+    const isLastStep = todo.subtasks!.every(s => s.completed || s.id === subtaskId);
+    if (isLastStep && !todo.completed) {
+      const prompt = `That was the last step. Complete ${todo.text} too?`;
+      setFollowUp({ kind: 'confirmation', prompt, commands: [{ action: 'complete', todoId }] });
+      announce({ action: 'complete_subtask', message: `Checked off ${step.text}. ${prompt}` });
+      return;
+    }
+    
+    announce({ action: 'complete_subtask', message: `Checked off ${step.text}` });
+  };
+
+  const setTodoCategory = (id: string, category?: string) => {
+    const todo = findTodo(id);
+    if (!todo) return;
+    
+    if (!category && !todo.category) {
+      announce({ action: 'set_category', message: `${todo.text} has no category` });
+      return;
+    }
+    
+    remember(category ? `move ${todo.text} to ${category}` : `untag ${todo.text}`);
+    updateTodos(prev => prev.map(t => t.id === id ? { ...t, category } : t));
+    noteRecent({ ...todo, category });
+    announce({
+      action: 'set_category',
+      message: category ? `Moved ${todo.text} to ${category}` : `Removed the category from ${todo.text}`
+    });
+  };
+
+  const setTodoRecurrence = (id: string, recurrence?: string) => {
+    const todo = findTodo(id);
+    if (!todo) return;
+    
+    const rule = recurrence ? parseRRule(recurrence) : undefined;
+    remember(rule ? `repeat ${todo.text} ${describeRecurrence(rule)}` : `stop repeating ${todo.text}`);
+    updateTodos(prev => prev.map(t =>
+      t.id === id
+        ? { ...t, recurrence, dueDate: rule ? getFirstOccurrence(rule, t.dueDate) : t.dueDate }
+        : t
+    ));
+  };
+
+  const toggleTodo = (id: string) => {
+    const todo = findTodo(id);
+    const next = todo && !todo.completed ? createNextOccurrence(todo) : undefined;
+    if (todo) {
+      remember(`${todo.completed ? 'reopen' : 'complete'} ${todo.text}`);
+      noteRecent(todo);
+    }
+    updateTodos(prev => [
+      ...(next ? [next] : []),
+      ...prev.map(todo => 
+        todo.id === id 
+          ? { 
+              ...todo, 
+              completed: !todo.completed,
+              completedAt: !todo.completed ? new Date() : undefined
+            }
+          : todo
+      )
+    ]);
   };
 
+  const findTodoByText = (text: string, action: VoiceCommand['action']): MatchResult => {
+    // Completing only makes sense for open tasks, so prefer those
+    const activeTodos = todosRef.current.filter(t => !t.completed);
+    const searchable = action === 'complete' && activeTodos.length > 0 ? activeTodos : todosRef.current;
+    return findBestMatch(text, searchable);
+  };
+
+  // Positions refer to the list as the user sees it, with the current filters and sort applied
   const findTodoByIndex = (index: number): Todo | undefined => {
-    const activeTodos = todos.filter(t => !t.completed);
-    return activeTodos[index];
+    const visibleTodos = getVisibleTodos(todosRef.current, view);
+    return visibleTodos[index < 0 ? visibleTodos.length + index : index];
+  };
+
+  const askWhichTodo = (command: VoiceCommand, candidates: Todo[]) => {
+    const options = candidates.map((todo, i) => `${i + 1}: ${todo.text}`);
+    const prompt = `Did you mean ${options.join(', or ')}?`;
+    
+    setFollowUp({ kind: 'disambiguation', prompt, command, candidates });
+    announce({ action: command.action, message: prompt });
+  };
+
+  // Finds the task a command refers to; asks the user when several tasks match equally well
+  const resolveCommandTarget = (command: VoiceCommand): Todo | undefined => {
+    const recent = recentTodosRef.current[recentTodosRef.current.length - 1];
+    
+    if (command.todoId) {
+      const todo = findTodo(command.todoId);
+      if (todo) return todo;
+    } else if (command.recent && recent) {
+      return recent;
+    } else if (command.index !== undefined) {
+      const todo = findTodoByIndex(command.index);
+      if (todo) return todo;
+    } else if (command.text) {
+      const { match, candidates } = findTodoByText(command.text, command.action);
+      if (match) return match;
+      if (candidates.length > 1) {
+        askWhichTodo(command, candidates);
+        return undefined;
+      }
+    }
+    
+    announce({
+      action: command.action,
+      message: command.recent ? "Sorry, I'm not sure which task you mean." : 'Task not found'
+    });
+    return undefined;
+  };
+
+  const readPage = (tasks: Todo[], count: number, intro: string = '') => {
+    const page = tasks.slice(0, count);
+    const remaining = tasks.slice(count);
+    const prompt = remaining.length > 0 ? `${remaining.length} more. Say next to hear them, or stop.` : '';
+    
+    noteRecent(...page);
+    setFollowUp(remaining.length > 0 ? { kind: 'reading', prompt, remaining } : null);
+    announce({
+      action: 'query',
+      message: `${intro}${getTaskReadout(page)}.${prompt ? ` ${prompt}` : ''}`
+    });
+  };
+
+  const readTasks = (tasks: Todo[], label: string) => {
+    if (tasks.length === 0) {
+      announce({ action: 'query', message: `You have no ${label}.` });
+      return;
+    }
+    readPage(tasks, READING_PAGE_SIZE, `You have ${tasks.length} ${label}: `);
+  };
+
+  const readMore = (count: number = READING_PAGE_SIZE) => {
+    if (followUp?.kind !== 'reading') {
+      announce({ action: 'read_more', message: 'There is nothing more to read.' });
+      return;
+    }
+    readPage(followUp.remaining, count);
+  };
+
+  const commandContext: CommandContext = {
+    get todos() {
+      return todosRef.current;
+    },
+    resolveTarget: resolveCommandTarget,
+    getRecentTodos: () => recentTodosRef.current,
+    addTodo,
+    completeTodo,
+    deleteTodo,
+    editTodo,
+    setTodoPriority,
+    setTodoCategory,
+    addSubtask,
+    completeSubtask,
+    appendTodoNote,
+    moveTodo,
+    clearAllTodos,
+    startDictation: () => setFollowUp({ kind: 'dictation', added: [] }),
+    view,
+    updateView: onViewChange,
+    settings: settingsRef.current,
+    changeSettings,
+    summarize: () => getTaskSummary(todosRef.current),
+    readTasks,
+    readMore,
+    undo,
+    redo,
+    announce
   };
 
-  const executeVoiceCommand = async (command: VoiceCommand) => {
+  const runVoiceCommand = (command: VoiceCommand) => {
+    const definition = getCommandDefinition(command.action);
+    
+    // "delete them" runs once for each of the recent tasks
+    if (definition && command.recent === 'all' && recentTodosRef.current.length > 0) {
+      [...recentTodosRef.current].forEach(todo => {
+        definition.handler({ ...command, recent: undefined, todoId: todo.id }, commandContext);
+      });
+      return;
+    }
+    
+    if (definition) {
+      definition.handler(command, commandContext);
+      return;
+    }
+    
+    announce({
+      action: 'unknown',
+      message: 'Sorry, I did not understand that command. Try saying add, complete, delete, change, or clear all.'
+    });
+  };
+
+  // Runs one command or an ordered batch, then speaks a single combined summary
+  const executeVoiceCommand = async (commands: VoiceCommand | VoiceCommand[]) => {
+    const batch = Array.isArray(commands) ? commands : [commands];
     setIsProcessing(true);
+    feedbackRef.current = [];
+    batchRememberedRef.current = false;
+    batchNotedRef.current = false;
     
     try {
-      switch (command.action) {
-        case 'add':
-          if (command.text) {
-            addTodo(command.text, command.priority, command.category);
-          }
-          break;
-          
-        case 'complete':
-          if (command.index !== undefined) {
-            const todo = findTodoByIndex(command.index);
-            if (todo) {
-              completeTodo(todo.id);
-            } else {
-              speak('Task not found');
-            }
-          } else if (command.text) {
-            const todo = findTodoByText(command.text);
-            if (todo) {
-              completeTodo(todo.id);
-            } else {
-              speak('Task not found');
-            }
-          }
-          break;
-          
-        case 'delete':
-          if (command.index !== undefined) {
-            const todo = findTodoByIndex(command.index);
-            if (todo) {
-              deleteTodo(todo.id);
-            } else {
-              speak('Task not found');
-            }
-          } else if (command.text) {
-            const todo = findTodoByText(command.text);
-            if (todo) {
-              deleteTodo(todo.id);
-            } else {
-              speak('Task not found');
-            }
-          }
-          break;
-          
-        case 'clear':
-          clearAllTodos();
+      for (let i = 0; i < batch.length; i++) {
+        const command = batch[i];
+        
+        // Ask for whatever the command left out, e.g. the task after a bare "add"
+        if (command.missing?.length) {
+          const prompt = getSlotQuestion(command);
+          setFollowUp({ kind: 'slot', prompt, commands: batch.slice(i) });
+          announce({ action: command.action, message: prompt });
           break;
-          
-        case 'unknown':
-          speak('Sorry, I did not understand that command. Try saying add, complete, delete, or clear all.');
+        }
+        
+        const confirmation = getConfirmation(batch.slice(i), commandContext);
+        
+        // Stop here and wait for yes or no; the rest of the batch runs after a yes
+        if (confirmation) {
+          setFollowUp({ kind: 'confirmation', ...confirmation });
+          announce({ action: command.action, message: confirmation.prompt });
           break;
+        }
+        
+        runVoiceCommand(command);
+      }
+      
+      const summary = getBatchSummary(feedbackRef.current);
+      if (summary) {
+        await say(summary);
       }
     } catch (error) {
       console.error('Error executing voice command:', error);
-      speak('Sorry, there was an error processing your command.');
+      say('Sorry, there was an error processing your command.');
     } finally {
+      feedbackRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const endDictation = async () => {
+    if (followUp?.kind !== 'dictation') return;
+    
+    const count = followUp.added.length;
+    setFollowUp(null);
+    VoiceHaptics.commandProcessed();
+    await say(count === 0
+      ? 'Bulk add finished. No tasks were added.'
+      : `Bulk add finished. Added ${count} task${count === 1 ? '' : 's'}.`);
+  };
+
+  // Each dictated phrase becomes its own task until the user says done
+  const continueDictation = async (transcript: string) => {
+    if (followUp?.kind !== 'dictation') return;
+    
+    const text = transcript.toLowerCase().trim().replace(/[.!?。]+$/, '');
+    if (getGrammar(language).finish.test(text)) {
+      await endDictation();
+      return;
+    }
+    
+    const details = parseTaskDetails(text.replace(/^(?:add|and|also|then)\s+/, ''), language);
+    if (!details.text) return;
+    
+    const newTodo = createTodo(details.text, details.priority, details.category, details.dueDate, details.recurrence);
+    remember(`add ${details.text}`);
+    updateTodos(prev => [newTodo, ...prev]);
+    setFollowUp(prev => prev?.kind === 'dictation' ? { ...prev, added: [...prev.added, newTodo] } : prev);
+    VoiceHaptics.commandProcessed();
+  };
+
+  // Accepts "2", "the second one" or the task name; anything else is treated as a new command
+  const answerDisambiguation = async (transcript: string) => {
+    if (followUp?.kind !== 'disambiguation') return;
+    
+    const { command, candidates } = followUp;
+    setFollowUp(null);
+    
+    if (getGrammar(language).cancel.test(transcript.toLowerCase().trim().replace(/[.!?。]+$/, ''))) {
+      await say('Okay, never mind.');
+      return;
+    }
+    
+    const choice = parseChoice(transcript, candidates.length);
+    const chosen = choice !== undefined
+      ? candidates[choice]
+      : findBestMatch(transcript, candidates).match;
+    
+    if (chosen) {
+      await executeVoiceCommand({ ...command, todoId: chosen.id, index: undefined, text: undefined });
+    } else {
+      await executeVoiceCommand(parseVoiceCommands(transcript, language));
+    }
+  };
+
+  const answerSlot = async (transcript: string) => {
+    if (followUp?.kind !== 'slot') return;
+    
+    const [command, ...rest] = followUp.commands;
+    setFollowUp(null);
+    
+    if (getGrammar(language).cancel.test(transcript.toLowerCase().trim().replace(/[.!?。]+$/, ''))) {
+      await say('Okay, never mind.');
+      return;
+    }
+    
+    // An answer that leaves the same slot empty gives up rather than asking the same question again
+    const filled = fillMissingSlot(command, transcript, language);
+    if (filled.missing?.[0] === command.missing?.[0]) {
+      await say('Sorry, I did not understand that, so nothing was changed.');
+      return;
+    }
+    
+    // Runs once every slot is filled, otherwise asks the next question
+    await executeVoiceCommand([filled, ...rest]);
+  };
+
+  const resolveConfirmation = async (confirmed: boolean) => {
+    if (followUp?.kind !== 'confirmation') return;
+    
+    const [command, ...rest] = followUp.commands;
+    setFollowUp(null);
+    
+    if (!confirmed) {
+      await say('Okay, cancelled.');
+      return;
+    }
+    
+    await executeVoiceCommand([{ ...command, confirmed: true }, ...rest]);
+  };
+
+  const answerConfirmation = async (transcript: string) => {
+    const grammar = getGrammar(language);
+    const text = transcript.toLowerCase().trim().replace(/[.!?。]+$/, '');
+    
+    if (grammar.confirm.test(text)) {
+      await resolveConfirmation(true);
+    } else if (grammar.cancel.test(text)) {
+      await resolveConfirmation(false);
+    } else {
+      setIsProcessing(true);
+      await say('Please say yes to confirm or no to cancel.');
       setIsProcessing(false);
     }
   };
 
+  // Stop, or any other command, ends a spoken list; next reads on
+  const answerReading = async (transcript: string) => {
+    if (followUp?.kind !== 'reading') return;
+    
+    const grammar = getGrammar(language);
+    const text = transcript.toLowerCase().trim().replace(/[.!?。]+$/, '');
+    if (grammar.finish.test(text) || grammar.cancel.test(text)) {
+      setFollowUp(null);
+      await say('Okay.');
+      return;
+    }
+    
+    const commands = parseVoiceCommands(transcript, language);
+    if (commands[0]?.action !== 'read_more') {
+      setFollowUp(null);
+    }
+    await executeVoiceCommand(commands);
+  };
+
+  // An unanswered confirmation cancels itself once the question has been asked
+  useEffect(() => {
+    if (followUp?.kind !== 'confirmation' || isProcessing) return;
+    
+    const timer = setTimeout(() => {
+      setFollowUp(null);
+      say('No answer, so I cancelled that.');
+    }, CONFIRMATION_TIMEOUT);
+    
+    return () => clearTimeout(timer);
+  }, [followUp, isProcessing]);
+
+  // Nobody asked for more, so stop waiting for "next"
+  useEffect(() => {
+    if (followUp?.kind !== 'reading' || isProcessing) return;
+    
+    const timer = setTimeout(() => setFollowUp(null), READING_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [followUp, isProcessing]);
+
+  const cancelFollowUp = () => {
+    if (followUp?.kind === 'dictation') {
+      endDictation();
+      return;
+    }
+    setFollowUp(null);
+  };
+
+  // Entry point for recognized speech: answers a pending follow-up or runs new commands
+  const handleTranscript = async (transcript: string) => {
+    if (followUp?.kind === 'dictation') {
+      await continueDictation(transcript);
+      return;
+    }
+    if (followUp?.kind === 'disambiguation') {
+      await answerDisambiguation(transcript);
+      return;
+    }
+    if (followUp?.kind === 'confirmation') {
+      await answerConfirmation(transcript);
+      return;
+    }
+    if (followUp?.kind === 'slot') {
+      await answerSlot(transcript);
+      return;
+    }
+    if (followUp?.kind === 'reading') {
+      await answerReading(transcript);
+      return;
+    }
+    
+    await executeVoiceCommand(parseVoiceCommands(transcript, language));
+  };
+
   return {
     todos,
     isProcessing,
+    followUp,
+    spokenText,
     addTodo,
     completeTodo,
     deleteTodo,
+    editTodo,
     clearAllTodos,
     toggleTodo,
-    executeVoiceCommand
+    setTodoRecurrence,
+    setTodoReminder,
+    addSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    setTodoNotes,
+    moveTodo,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    executeVoiceCommand,
+    handleTranscript,
+    endDictation,
+    resolveConfirmation,
+    cancelFollowUp
   };
 };
\ No newline at end of file
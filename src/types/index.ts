@@ -6,14 +6,157 @@ export interface Todo {
   completedAt?: Date;
   priority: 'low' | 'medium' | 'high';
   category?: string;
+  dueDate?: Date; // 23:59 when the user gave a day but no time
+  recurrence?: string; // iCalendar RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  reminderAt?: Date; // cleared once the reminder has been shown
+  subtasks?: Subtask[]; // checklist steps, in order
+  notes?: string; // free text, lines separated by \n
 }
 
+export interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+  completedAt?: Date;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// The RRULE fields a spoken repeat schedule can use
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[]; // weekdays, 0 is Sunday
+  byMonthDay?: number;
+}
+
+// What a capture group of a command pattern holds
+export type CommandSlot =
+  | 'task'     // new task text with optional priority, category and due date
+  | 'target'   // an existing task: its name, number or position
+  | 'changes'  // replacement text with optional priority, category and due date
+  | 'query'    // which tasks to read out, e.g. "high priority work" or "due today"
+  | 'count'    // how many, e.g. "five" in "next five"
+  | 'language' // a spoken language name, e.g. "spanish"
+  | 'priority' // a priority on its own, e.g. "urgent" or "low"
+  | 'category' // a category on its own, e.g. "health" in "move dentist to health"
+  | 'reminder' // when to remind, e.g. "at 6pm" in "remind me at 6pm to call mom"
+  | 'step'     // a checklist step of a task, e.g. "buy paint" in "add step buy paint to redecorate"
+  | 'note'     // dictated note text, with spoken punctuation such as "comma"
+  | 'placement' // where to move a task, e.g. "to the top" or "below"
+  | 'anchor'   // the task another one moves next to, e.g. "laundry" in "move groceries below laundry"
+  | 'sort'     // how to order the list, e.g. "priority" in "sort by priority"
+  | 'search';  // words to look for in tasks and notes, e.g. "dentist" in "find dentist"
+
 export interface VoiceCommand {
-  action: 'add' | 'complete' | 'delete' | 'edit' | 'clear' | 'unknown' | 'filter' | 'setting' | 'help' | 'summary' | 'bulk_add';
+  action: 'add' | 'complete' | 'delete' | 'edit' | 'clear' | 'unknown' | 'filter' | 'setting' | 'help' | 'summary' | 'bulk_add' | 'undo' | 'redo' | 'query' | 'read_more' | 'set_priority' | 'set_category' | 'remind' | 'add_subtask' | 'complete_subtask' | 'add_note' | 'reorder' | 'sort' | 'search';
   text?: string;
   priority?: Todo['priority'];
+  category?: string; // '' removes the category of an existing task
+  dueDate?: Date;
+  recurrence?: string;
+  reminderAt?: Date;
+  step?: string; // checklist step text; the task it belongs to is the target
+  note?: string; // appended to the notes of the target
+  placement?: 'top' | 'bottom' | 'before' | 'after' | 'up' | 'down'; // up and down move one place
+  anchor?: Pick<VoiceCommand, 'text' | 'index' | 'recent'>; // "before" or "after" this task
+  sort?: SortMode;
+  search?: string; // '' clears the search
+  priorityStep?: 1 | -1; // "raise" or "lower" the priority one level
+  index?: number; // position in the visible list; negative counts from the end
+  recent?: 'one' | 'all'; // "it" or "them": the tasks last added, changed or read out
+  todoId?: string;
+  newText?: string;
+  confirmed?: boolean; // the user already said yes to a destructive command
+  missing?: CommandSlot[]; // slots still to ask for, e.g. the task after a bare "add"
+  query?: TaskQuery;
+  count?: number;
+  language?: string; // BCP 47 code for "switch to spanish"
+}
+
+export type TodoFilter = 'all' | 'active' | 'completed';
+
+// 'manual' keeps the saved order of the list, which starts newest first and changes when tasks are moved
+export type SortMode = 'manual' | 'newest' | 'oldest' | 'priority' | 'due' | 'alphabetical';
+
+// What the list shows and in which order; shared by the list, voice commands and the URL
+export interface ListView {
+  status: TodoFilter;
+  priority?: Todo['priority'];
   category?: string;
-  index?: number;
+  sort: SortMode;
+  search?: string; // matched against task text, category and notes
+}
+
+export type DueWindow = 'overdue' | 'today' | 'tomorrow' | 'week';
+
+// Which tasks a spoken list query reads out
+export interface TaskQuery {
+  status?: TodoFilter;
+  priority?: Todo['priority'];
+  category?: string;
+  due?: DueWindow;
+}
+
+// A multi-turn voice exchange that takes the next transcript instead of the parser
+export type VoiceFollowUp =
+  | { kind: 'dictation'; added: Todo[] }
+  | { kind: 'disambiguation'; prompt: string; command: VoiceCommand; candidates: Todo[] }
+  | { kind: 'confirmation'; prompt: string; commands: VoiceCommand[] }
+  | { kind: 'slot'; prompt: string; commands: VoiceCommand[] }
+  | { kind: 'reading'; prompt: string; remaining: Todo[] };
+
+// Spoken feedback for one executed command; batches are summarized together
+export interface CommandFeedback {
+  action: VoiceCommand['action'];
+  message: string;
+  taskText?: string;
+}
+
+// Recognition and speech settings from the settings panel
+export interface VoiceSettings {
+  language: string;
+  sensitivity: number;
+  voiceRate: number;
+  voicePitch: number;
+  voiceVolume: number;
+  autoStart: boolean;
+  continuousMode: boolean;
+  // Said before each command in continuous mode
+  wakePhrase: string;
+  // Minutes without a command before continuous mode stops listening
+  sleepAfter: number;
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+}
+
+// Settings from the mobile settings panel
+export interface MobileVoiceSettings {
+  // Voice Recognition Settings
+  language: string;
+  sensitivity: number;
+  continuousMode: boolean;
+  
+  // Mobile-specific settings
+  hapticFeedback: boolean;
+  hapticIntensity: 'light' | 'medium' | 'heavy';
+  screenWakeLock: boolean;
+  touchGestures: boolean;
+  
+  // Voice feedback settings
+  voiceConfirmation: boolean;
+  voiceRate: number;
+  voiceVolume: number;
+  
+  // Accessibility settings
+  screenReaderSupport: boolean;
+  visualFeedback: boolean;
+  largeText: boolean;
+  
+  // Audio settings
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
 }
 
 export interface AppState {
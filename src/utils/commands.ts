@@ -0,0 +1,2092 @@
+import { Todo, VoiceCommand, CommandFeedback, CommandSlot, ListView, VoiceSettings, MobileVoiceSettings } from '../types';
+import { queryTodos, describeTaskQuery, hasActiveFilters, getVisibleTodos, SORT_DESCRIPTIONS } from './filters';
+import { LANGUAGE_NAME_PATTERN, SUPPORTED_GRAMMAR_LANGUAGES, getLanguageName, getGrammarLanguage } from './grammars';
+import { getReminderTime } from './reminders';
+import { findBestStep } from './matching';
+
+// The single list of voice commands. The parser, help panel, command discovery
+// and mobile command list are all generated from it.
+
+export type CommandCategory = 'create' | 'complete' | 'delete' | 'manage' | 'view';
+
+// Everything voice commands can change in settings
+export interface AppSettings {
+  voice: VoiceSettings;
+  mobile: MobileVoiceSettings;
+}
+
+export interface SettingsChange {
+  voice?: Partial<VoiceSettings>;
+  mobile?: Partial<MobileVoiceSettings>;
+}
+
+// What handlers can do; provided by useTodos
+export interface CommandContext {
+  todos: Todo[];
+  resolveTarget: (command: VoiceCommand) => Todo | undefined;
+  // The tasks "them" refers to: the ones last added, changed or read out
+  getRecentTodos: () => Todo[];
+  addTodo: (
+    text: string,
+    priority?: Todo['priority'],
+    category?: string,
+    dueDate?: Date,
+    recurrence?: string,
+    reminderAt?: Date
+  ) => void;
+  completeTodo: (id: string) => void;
+  deleteTodo: (id: string) => void;
+  editTodo: (id: string, changes: Partial<Pick<Todo, 'text' | 'priority' | 'category' | 'dueDate' | 'recurrence'>>) => void;
+  setTodoPriority: (id: string, priority: Todo['priority']) => void;
+  // An undefined category removes it
+  setTodoCategory: (id: string, category?: string) => void;
+  addSubtask: (todoId: string, text: string) => void;
+  // Adds a line to the notes of a task
+  appendTodoNote: (id: string, note: string) => void;
+  // Puts a task just before or after another and shows the list in that manual order
+  moveTodo: (id: string, targetId: string, side: 'before' | 'after') => void;
+  // Offers to complete the task as well once its last step is done
+  completeSubtask: (todoId: string, subtaskId: string) => void;
+  clearAllTodos: () => void;
+  startDictation: () => void;
+  view: ListView;
+  updateView: (changes: Partial<ListView>) => void;
+  settings: AppSettings;
+  // Saves the change and makes it undoable; `label` completes "Undid ..."
+  changeSettings: (changes: SettingsChange, label: string) => void;
+  summarize: () => string;
+  // Reads tasks aloud a page at a time; `label` names them, e.g. "open work tasks"
+  readTasks: (tasks: Todo[], label: string) => void;
+  readMore: (count?: number) => void;
+  undo: () => void;
+  redo: () => void;
+  announce: (feedback: CommandFeedback) => void;
+}
+
+// A tappable example in the command discovery carousel
+export interface CommandSuggestion {
+  example: string;
+  description: string;
+  // Lower ranks are suggested first
+  rank: number;
+  // Hidden until the list has at least this many tasks
+  minTodos?: number;
+}
+
+// Keyed by grammar language; languages without their own patterns use English
+export type LocalizedPatterns = { en: RegExp[] } & Partial<Record<string, RegExp[]>>;
+
+// A shorter way of saying a command, such as a bare "add", that leaves slots to ask for
+export interface PartialCommandForm {
+  patterns: LocalizedPatterns;
+  // The slots these patterns do capture, in order
+  slots: CommandSlot[];
+}
+
+export interface CommandDefinition {
+  id: string;
+  action: VoiceCommand['action'];
+  category: CommandCategory;
+  patterns: LocalizedPatterns;
+  // Words the command opens with in each language, so "add milk and undo that" splits before "undo"
+  verbs?: Partial<Record<string, string[]>>;
+  // What each capture group holds, in order
+  slots: CommandSlot[];
+  partial?: PartialCommandForm[];
+  // Asked when a slot is missing
+  questions?: Partial<Record<CommandSlot, string>>;
+  // Fixed fields for commands that carry no slots, e.g. which filter to show
+  values?: Partial<VoiceCommand>;
+  usage: string;
+  help: string;
+  examples: string[];
+  suggestions?: CommandSuggestion[];
+  mobileOnly?: boolean;
+  // Question to ask before running a destructive command; undefined runs it straight away
+  confirm?: (command: VoiceCommand, context: CommandContext) => string | undefined;
+  handler: (command: VoiceCommand, context: CommandContext) => void;
+}
+
+// A spoken filter replaces the priority and category filters; the status only changes when said
+const showFilter = (command: VoiceCommand, context: CommandContext) => {
+  const { status, priority, category } = command.query ?? {};
+  const changes: Partial<ListView> = { priority, category, ...(status && { status }) };
+  const view = { ...context.view, ...changes };
+  
+  context.updateView(changes);
+  context.announce({
+    action: 'filter',
+    message: hasActiveFilters(view) ? `Showing ${describeTaskQuery(view, 2)}` : 'Showing all tasks'
+  });
+};
+
+const sortList = (command: VoiceCommand, context: CommandContext) => {
+  if (!command.sort) return;
+  
+  context.updateView({ sort: command.sort });
+  context.announce({ action: 'sort', message: `Sorted ${SORT_DESCRIPTIONS[command.sort]}` });
+};
+
+// Results come from every task, so filters that would hide a match are cleared
+const searchList = (command: VoiceCommand, context: CommandContext) => {
+  if (!command.search) {
+    context.updateView({ search: undefined });
+    context.announce({ action: 'search', message: 'Search cleared' });
+    return;
+  }
+  
+  const view: ListView = { ...context.view, status: 'all', priority: undefined, category: undefined, search: command.search };
+  const count = getVisibleTodos(context.todos, view).length;
+  
+  context.updateView({ status: 'all', priority: undefined, category: undefined, search: command.search });
+  context.announce({
+    action: 'search',
+    message: count > 0
+      ? `Found ${count} ${count === 1 ? 'task' : 'tasks'} matching ${command.search}`
+      : `No tasks match ${command.search}`
+  });
+};
+
+// A reminder is a new task due when it goes off, unless a due date was said as well
+const addReminder = (command: VoiceCommand, context: CommandContext) => {
+  if (!command.text) return;
+  
+  const reminderAt = command.reminderAt ?? (command.dueDate && getReminderTime(command.dueDate));
+  context.addTodo(command.text, command.priority, command.category, command.dueDate ?? reminderAt, command.recurrence, reminderAt);
+};
+
+const addStep = (command: VoiceCommand, context: CommandContext) => {
+  const todo = context.resolveTarget(command);
+  if (!todo || !command.step) return;
+  
+  context.addSubtask(todo.id, command.step);
+  context.announce({ action: 'add_subtask', message: `Added step ${command.step} to ${todo.text}` });
+};
+
+// Without a task named, the step is looked for in every open task
+const completeStep = (command: VoiceCommand, context: CommandContext) => {
+  if (!command.step) return;
+  
+  const hasTarget = command.todoId !== undefined || command.text !== undefined || command.index !== undefined || command.recent !== undefined;
+  const target = hasTarget ? context.resolveTarget(command) : undefined;
+  if (hasTarget && !target) return;
+  
+  const steps = (target ? [target] : context.todos.filter(todo => !todo.completed)).flatMap(todo =>
+    (todo.subtasks ?? []).filter(step => !step.completed).map(step => ({ todoId: todo.id, id: step.id, text: step.text }))
+  );
+  const step = findBestStep(command.step, steps);
+  
+  if (step) {
+    context.completeSubtask(step.todoId, step.id);
+  } else {
+    context.announce({ action: 'complete_subtask', message: `No open step called ${command.step}` });
+  }
+};
+
+// "To the top" and "to the bottom" are the ends of the list as it is shown
+const reorderTodo = (command: VoiceCommand, context: CommandContext) => {
+  const todo = context.resolveTarget(command);
+  if (!todo || !command.placement) return;
+  
+  const visible = getVisibleTodos(context.todos, context.view);
+  const isEnd = command.placement === 'top' || command.placement === 'bottom';
+  // "up" and "down" move one place, next to the neighbour on that side
+  const step = command.placement === 'up' ? -1 : command.placement === 'down' ? 1 : 0;
+  const position = visible.findIndex(item => item.id === todo.id);
+  const anchor = isEnd
+    ? (command.placement === 'top' ? visible[0] : visible[visible.length - 1])
+    : step
+      ? (position >= 0 ? visible[position + step] : undefined)
+      : command.anchor && context.resolveTarget({ action: 'reorder', ...command.anchor });
+  
+  if (!anchor && step && position >= 0) {
+    context.announce({ action: 'reorder', message: `${todo.text} is already at the ${step < 0 ? 'top' : 'bottom'}` });
+    return;
+  }
+  if (!anchor) return;
+  
+  if (anchor.id === todo.id) {
+    context.announce({
+      action: 'reorder',
+      message: isEnd ? `${todo.text} is already at the ${command.placement}` : "A task can't move next to itself"
+    });
+    return;
+  }
+  
+  const side = ['top', 'before', 'up'].includes(command.placement) ? 'before' : 'after';
+  context.moveTodo(todo.id, anchor.id, side);
+  context.announce({
+    action: 'reorder',
+    message: isEnd
+      ? `Moved ${todo.text} to the ${command.placement}`
+      : step
+        ? `Moved ${todo.text} ${command.placement}`
+        : `Moved ${todo.text} ${side === 'before' ? 'above' : 'below'} ${anchor.text}`
+  });
+};
+
+const PRIORITY_LEVELS: Todo['priority'][] = ['low', 'medium', 'high'];
+
+const changePriority = (command: VoiceCommand, context: CommandContext) => {
+  const todo = context.resolveTarget(command);
+  if (!todo) return;
+  
+  if (command.priorityStep) {
+    const level = PRIORITY_LEVELS[PRIORITY_LEVELS.indexOf(todo.priority) + command.priorityStep];
+    if (!level) {
+      context.announce({ action: 'set_priority', message: `${todo.text} is already ${todo.priority} priority` });
+      return;
+    }
+    context.setTodoPriority(todo.id, level);
+  } else if (command.priority) {
+    context.setTodoPriority(todo.id, command.priority);
+  }
+};
+
+const changeCategory = (command: VoiceCommand, context: CommandContext) => {
+  const todo = context.resolveTarget(command);
+  if (todo) {
+    context.setTodoCategory(todo.id, command.category || undefined);
+  }
+};
+
+const RATE_STEP = 0.25;
+const MIN_RATE = 0.5;
+const MAX_RATE = 2;
+
+interface SettingUpdate {
+  changes?: SettingsChange;
+  label?: string;
+  message: string;
+}
+
+const changeRate = (settings: AppSettings, step: number): SettingUpdate => {
+  const rate = Math.min(MAX_RATE, Math.max(MIN_RATE, settings.voice.voiceRate + step));
+  if (rate === settings.voice.voiceRate) {
+    return { message: `I'm already speaking as ${step < 0 ? 'slowly' : 'fast'} as I can.` };
+  }
+  
+  return {
+    changes: { voice: { voiceRate: rate }, mobile: { voiceRate: rate } },
+    label: step < 0 ? 'slower speech' : 'faster speech',
+    message: step < 0 ? 'Speaking slower' : 'Speaking faster'
+  };
+};
+
+// Setting commands carry which setting to change in `text`, e.g. "sound:off"
+const getSettingUpdate = (command: VoiceCommand, settings: AppSettings): SettingUpdate => {
+  switch (command.text) {
+    case 'rate:down':
+      return changeRate(settings, -RATE_STEP);
+    case 'rate:up':
+      return changeRate(settings, RATE_STEP);
+    case 'sound:on':
+    case 'sound:off': {
+      const enabled = command.text === 'sound:on';
+      return {
+        changes: { mobile: { voiceConfirmation: enabled } },
+        label: `sound ${enabled ? 'on' : 'off'}`,
+        message: `Sound ${enabled ? 'on' : 'off'}`
+      };
+    }
+    case 'continuous:on':
+    case 'continuous:off': {
+      const enabled = command.text === 'continuous:on';
+      return {
+        changes: { voice: { continuousMode: enabled }, mobile: { continuousMode: enabled } },
+        label: `continuous mode ${enabled ? 'on' : 'off'}`,
+        message: enabled
+          ? `Continuous mode on. Say ${settings.voice.wakePhrase} before each command.`
+          : 'Continuous mode off'
+      };
+    }
+    case 'text:bigger':
+    case 'text:smaller': {
+      const largeText = command.text === 'text:bigger';
+      if (settings.mobile.largeText === largeText) {
+        return { message: `Text is already ${largeText ? 'large' : 'normal size'}` };
+      }
+      return {
+        changes: { mobile: { largeText } },
+        label: largeText ? 'bigger text' : 'smaller text',
+        message: largeText ? 'Text is bigger now' : 'Text is back to normal size'
+      };
+    }
+    case 'haptics:on':
+    case 'haptics:off': {
+      const enabled = command.text === 'haptics:on';
+      return {
+        changes: { mobile: { hapticFeedback: enabled } },
+        label: `haptics ${enabled ? 'on' : 'off'}`,
+        message: `Haptic feedback ${enabled ? 'enabled' : 'disabled'}`
+      };
+    }
+    case 'language': {
+      const language = command.language ?? settings.voice.language;
+      const name = getLanguageName(language);
+      const hasGrammar = SUPPORTED_GRAMMAR_LANGUAGES.includes(language.toLowerCase().split('-')[0]);
+      return {
+        changes: { voice: { language }, mobile: { language } },
+        label: `switch to ${name}`,
+        message: hasGrammar ? `Switched to ${name}` : `Switched to ${name}. Voice commands stay in English.`
+      };
+    }
+    default:
+      return { message: 'Sorry, I cannot change that setting.' };
+  }
+};
+
+const changeSetting = (command: VoiceCommand, context: CommandContext) => {
+  const update = getSettingUpdate(command, context.settings);
+  if (update.changes && update.label) {
+    context.changeSettings(update.changes, update.label);
+  }
+  context.announce({ action: 'setting', message: update.message });
+};
+
+const languagePattern = (prefix: string, suffix: string = ''): RegExp => {
+  return new RegExp(`^${prefix}(${LANGUAGE_NAME_PATTERN})${suffix}$`);
+};
+
+// Order matters: the first command whose pattern matches wins
+export const COMMANDS: CommandDefinition[] = [
+  {
+    id: 'undo',
+    action: 'undo',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:undo|undo that|undo it|undo the last (?:change|one)|take that back|oops)$/],
+      es: [/^(?:deshacer|deshaz|deshacer eso|deshaz eso)$/],
+      fr: [/^(?:annuler|annule|annuler ça|annule ça|défaire|défais ça)$/],
+      de: [/^(?:rückgängig|rückgängig machen|mach das rückgängig|mach es rückgängig)$/],
+      pt: [/^(?:desfazer|desfaz|desfaça|desfazer isso|desfaz isso)$/],
+      ja: [/^(?:元に戻す|元に戻して|取り消し|取り消して)$/]
+    },
+    verbs: {
+      en: ['undo'],
+      es: ['deshacer', 'deshaz'],
+      fr: ['annuler', 'annule', 'défaire', 'défais'],
+      de: ['rückgängig'],
+      pt: ['desfazer', 'desfaz', 'desfaça']
+    },
+    slots: [],
+    usage: 'Undo',
+    help: 'Take back the last change',
+    examples: ['Undo', 'Undo that'],
+    suggestions: [
+      { example: 'Undo', description: 'Take back the last change', rank: 8, minTodos: 1 }
+    ],
+    handler: (_command, context) => {
+      context.undo();
+    }
+  },
+  {
+    id: 'redo',
+    action: 'redo',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:redo|redo that|redo it)$/],
+      es: [/^(?:rehacer|rehaz|rehaz eso)$/],
+      fr: [/^(?:rétablir|rétablis|refaire|refais)$/],
+      de: [/^(?:wiederherstellen|wiederholen|stelle wieder her)$/],
+      pt: [/^(?:refazer|refaz|refaça)$/],
+      ja: [/^(?:やり直し|やり直して)$/]
+    },
+    verbs: {
+      en: ['redo'],
+      es: ['rehacer', 'rehaz'],
+      fr: ['rétablir', 'rétablis', 'refaire', 'refais'],
+      de: ['wiederherstellen', 'wiederholen', 'stelle'],
+      pt: ['refazer', 'refaz', 'refaça']
+    },
+    slots: [],
+    usage: 'Redo',
+    help: 'Bring back what you just undid',
+    examples: ['Redo'],
+    handler: (_command, context) => {
+      context.redo();
+    }
+  },
+  {
+    id: 'show-completed',
+    action: 'filter',
+    category: 'view',
+    patterns: {
+      en: [/^show (?:me )?(?:the )?(?:completed|done)(?: tasks)?$/],
+      es: [/^(?:mostrar|muestra) (?:las )?(?:completadas|hechas|terminadas)(?: tareas)?$/],
+      fr: [/^(?:afficher|affiche|montre) (?:les )?(?:tâches )?(?:terminées|faites)$/],
+      de: [/^(?:zeige (?:die )?erledigten?(?: aufgaben)?|erledigte (?:aufgaben )?anzeigen)$/],
+      pt: [/^(?:mostrar|mostra|mostre) (?:as )?(?:tarefas )?(?:concluídas|feitas)$/],
+      ja: [/^完了(?:した)?(?:タスク)?を?(?:表示|見せて)(?:して)?$/]
+    },
+    verbs: {
+      en: ['show'],
+      es: ['mostrar', 'muestra'],
+      fr: ['afficher', 'affiche', 'montre'],
+      de: ['zeige'],
+      pt: ['mostrar', 'mostra', 'mostre']
+    },
+    slots: [],
+    values: { query: { status: 'completed' } },
+    usage: 'Show completed',
+    help: 'Show only finished tasks',
+    examples: ['Show completed'],
+    mobileOnly: true,
+    handler: showFilter
+  },
+  {
+    id: 'show-active',
+    action: 'filter',
+    category: 'view',
+    patterns: {
+      en: [/^show (?:me )?(?:the )?(?:active|pending)(?: tasks)?$/],
+      es: [/^(?:mostrar|muestra) (?:las )?(?:tareas )?(?:activas|pendientes)$/],
+      fr: [/^(?:afficher|affiche|montre) (?:les )?(?:tâches )?(?:actives|en cours)$/],
+      de: [/^(?:zeige (?:die )?(?:offenen?|aktiven?)(?: aufgaben)?|offene (?:aufgaben )?anzeigen)$/],
+      pt: [/^(?:mostrar|mostra|mostre) (?:as )?(?:tarefas )?(?:ativas|pendentes)$/],
+      ja: [/^(?:未完了|残り)(?:の)?(?:タスク)?を?(?:表示|見せて)(?:して)?$/]
+    },
+    verbs: {
+      en: ['show'],
+      es: ['mostrar', 'muestra'],
+      fr: ['afficher', 'affiche', 'montre'],
+      de: ['zeige'],
+      pt: ['mostrar', 'mostra', 'mostre']
+    },
+    slots: [],
+    values: { query: { status: 'active' } },
+    usage: 'Show active',
+    help: 'Show only open tasks',
+    examples: ['Show active'],
+    mobileOnly: true,
+    handler: showFilter
+  },
+  {
+    id: 'show-all',
+    action: 'filter',
+    category: 'view',
+    patterns: {
+      en: [/^show (?:me )?(?:all|everything)(?: tasks)?$/, /^(?:clear|reset|remove) (?:the |all )?filters?$/],
+      es: [/^(?:mostrar|muestra) (?:todas|todo)(?: las tareas)?$/],
+      fr: [/^(?:afficher|affiche|montre) (?:tout|toutes les tâches)$/],
+      de: [/^(?:zeige alle(?: aufgaben)?|alle (?:aufgaben )?anzeigen)$/],
+      pt: [/^(?:mostrar|mostra|mostre) (?:todas|tudo)(?: as tarefas)?$/],
+      ja: [/^(?:全部|すべて|全て)(?:の)?(?:タスク)?を?(?:表示|見せて)(?:して)?$/]
+    },
+    verbs: {
+      en: ['show', 'clear', 'reset', 'remove'],
+      es: ['mostrar', 'muestra'],
+      fr: ['afficher', 'affiche', 'montre'],
+      de: ['zeige', 'alle'],
+      pt: ['mostrar', 'mostra', 'mostre']
+    },
+    slots: [],
+    values: { query: { status: 'all' } },
+    usage: 'Show all',
+    help: 'Show every task',
+    examples: ['Show all', 'Clear filters'],
+    mobileOnly: true,
+    handler: showFilter
+  },
+  {
+    id: 'speak-slower',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:speak|talk|read) (?:a (?:bit|little) )?(?:slower|more slowly)$/, /^slow down$/],
+      es: [/^(?:habla|hable) más (?:despacio|lento)$/],
+      fr: [/^(?:parle|parlez) plus lentement$/],
+      de: [/^sprich langsamer$/],
+      pt: [/^(?:fale|fala) mais devagar$/],
+      ja: [/^(?:もっと)?ゆっくり(?:話して|喋って)$/]
+    },
+    verbs: {
+      en: ['speak', 'talk', 'read', 'slow down'],
+      es: ['habla', 'hable'],
+      fr: ['parle', 'parlez'],
+      de: ['sprich'],
+      pt: ['fale', 'fala']
+    },
+    slots: [],
+    values: { text: 'rate:down' },
+    usage: 'Speak slower',
+    help: 'Slow down spoken replies',
+    examples: ['Speak slower'],
+    suggestions: [
+      { example: 'Speak slower', description: 'Change how fast I talk', rank: 10 }
+    ],
+    handler: changeSetting
+  },
+  {
+    id: 'speak-faster',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:speak|talk|read) (?:a (?:bit|little) )?(?:faster|more quickly|quicker)$/, /^speed up$/],
+      es: [/^(?:habla|hable) más (?:rápido|deprisa)$/],
+      fr: [/^(?:parle|parlez) plus vite$/],
+      de: [/^sprich schneller$/],
+      pt: [/^(?:fale|fala) mais rápido$/],
+      ja: [/^(?:もっと)?速く(?:話して|喋って)$/]
+    },
+    verbs: {
+      en: ['speak', 'talk', 'read', 'speed up'],
+      es: ['habla', 'hable'],
+      fr: ['parle', 'parlez'],
+      de: ['sprich'],
+      pt: ['fale', 'fala']
+    },
+    slots: [],
+    values: { text: 'rate:up' },
+    usage: 'Speak faster',
+    help: 'Speed up spoken replies',
+    examples: ['Speak faster'],
+    handler: changeSetting
+  },
+  {
+    id: 'sound-off',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [
+        /^(?:turn|switch) (?:the )?(?:sound|voice|speech|voice feedback) off$/,
+        /^(?:turn|switch) off (?:the )?(?:sound|voice|speech|voice feedback)$/,
+        /^(?:mute|be quiet|stop talking)$/,
+      ],
+      es: [/^(?:silencio|(?:desactiva|desactivar|quita|quitar) (?:el )?sonido)$/],
+      fr: [/^(?:silence|(?:coupe|couper|désactive|désactiver) le son)$/],
+      de: [/^(?:ton aus|stumm|sei still)$/],
+      pt: [/^(?:silêncio|(?:desliga|desligar|desative) o som)$/],
+      ja: [/^(?:音を?(?:消して|オフ)|ミュート)$/]
+    },
+    verbs: {
+      en: ['turn', 'switch', 'mute', 'be quiet', 'stop talking'],
+      es: ['silencio', 'desactiva', 'desactivar', 'quita', 'quitar'],
+      fr: ['silence', 'coupe', 'couper', 'désactive', 'désactiver'],
+      de: ['ton', 'stumm', 'sei still'],
+      pt: ['silêncio', 'desliga', 'desligar', 'desative']
+    },
+    slots: [],
+    values: { text: 'sound:off' },
+    usage: 'Turn off sound',
+    help: 'Stop spoken replies; they still show on screen',
+    examples: ['Turn off sound'],
+    handler: changeSetting
+  },
+  {
+    id: 'sound-on',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [
+        /^(?:turn|switch) (?:the )?(?:sound|voice|speech|voice feedback) on$/,
+        /^(?:turn|switch) on (?:the )?(?:sound|voice|speech|voice feedback)$/,
+        /^unmute$/,
+      ],
+      es: [/^(?:activa|activar|pon|poner) (?:el )?sonido$/],
+      fr: [/^(?:remets|remettre|active|activer) le son$/],
+      de: [/^ton (?:an|ein)$/],
+      pt: [/^(?:liga|ligar|ative) o som$/],
+      ja: [/^音を?(?:出して|オン)$/]
+    },
+    verbs: {
+      en: ['turn', 'switch', 'unmute'],
+      es: ['activa', 'activar', 'pon', 'poner'],
+      fr: ['remets', 'remettre', 'active', 'activer'],
+      de: ['ton'],
+      pt: ['liga', 'ligar', 'ative']
+    },
+    slots: [],
+    values: { text: 'sound:on' },
+    usage: 'Turn on sound',
+    help: 'Speak replies again',
+    examples: ['Turn on sound'],
+    handler: changeSetting
+  },
+  {
+    id: 'continuous-on',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:enable|turn on|switch on|start) (?:the )?continuous (?:mode|listening)$/],
+      es: [/^(?:activa|activar) (?:el )?modo continuo$/],
+      fr: [/^(?:active|activer) le mode continu$/],
+      de: [/^dauermodus (?:an|ein)$/],
+      pt: [/^(?:ativa|ativar|ative) o modo contínuo$/],
+      ja: [/^連続モードを?(?:オン|有効)(?:にして)?$/]
+    },
+    verbs: {
+      en: ['enable', 'turn on', 'switch on', 'start'],
+      es: ['activa', 'activar'],
+      fr: ['active', 'activer'],
+      de: ['dauermodus'],
+      pt: ['ativa', 'ativar', 'ative']
+    },
+    slots: [],
+    values: { text: 'continuous:on' },
+    usage: 'Enable continuous mode',
+    help: 'Listen hands-free for the wake phrase',
+    examples: ['Enable continuous mode'],
+    handler: changeSetting
+  },
+  {
+    id: 'continuous-off',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:disable|turn off|switch off|stop) (?:the )?continuous (?:mode|listening)$/],
+      es: [/^(?:desactiva|desactivar) (?:el )?modo continuo$/],
+      fr: [/^(?:désactive|désactiver) le mode continu$/],
+      de: [/^dauermodus aus$/],
+      pt: [/^(?:desativa|desativar|desative) o modo contínuo$/],
+      ja: [/^連続モードを?(?:オフ|無効)(?:にして)?$/]
+    },
+    verbs: {
+      en: ['disable', 'turn off', 'switch off', 'stop'],
+      es: ['desactiva', 'desactivar'],
+      fr: ['désactive', 'désactiver'],
+      de: ['dauermodus'],
+      pt: ['desativa', 'desativar', 'desative']
+    },
+    slots: [],
+    values: { text: 'continuous:off' },
+    usage: 'Disable continuous mode',
+    help: 'Listen only when you tap the microphone',
+    examples: ['Disable continuous mode'],
+    handler: changeSetting
+  },
+  {
+    id: 'text-bigger',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^make (?:the )?(?:text|font|writing) (?:bigger|larger)$/, /^(?:bigger|larger) (?:text|font)$/],
+      es: [/^(?:letra|texto) más grande$/],
+      fr: [/^(?:texte|police) plus grande?$/],
+      de: [/^(?:text|schrift) größer$/],
+      pt: [/^(?:letra|texto) maior$/],
+      ja: [/^文字を?大きく(?:して)?$/]
+    },
+    verbs: {
+      en: ['make', 'bigger', 'larger'],
+      es: ['letra', 'texto'],
+      fr: ['texte', 'police'],
+      de: ['text', 'schrift'],
+      pt: ['letra', 'texto']
+    },
+    slots: [],
+    values: { text: 'text:bigger' },
+    usage: 'Make text bigger',
+    help: 'Use large text',
+    examples: ['Make text bigger'],
+    handler: changeSetting
+  },
+  {
+    id: 'text-smaller',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^make (?:the )?(?:text|font|writing) (?:smaller|normal(?: size)?)$/, /^(?:smaller|normal) (?:text|font)$/],
+      es: [/^(?:letra|texto) más pequeñ[oa]$/],
+      fr: [/^(?:texte|police) plus petite?$/],
+      de: [/^(?:text|schrift) kleiner$/],
+      pt: [/^(?:letra|texto) menor$/],
+      ja: [/^文字を?小さく(?:して)?$/]
+    },
+    verbs: {
+      en: ['make', 'smaller', 'normal'],
+      es: ['letra', 'texto'],
+      fr: ['texte', 'police'],
+      de: ['text', 'schrift'],
+      pt: ['letra', 'texto']
+    },
+    slots: [],
+    values: { text: 'text:smaller' },
+    usage: 'Make text smaller',
+    help: 'Go back to normal text size',
+    examples: ['Make text smaller'],
+    handler: changeSetting
+  },
+  {
+    id: 'language',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [
+        /^(?:switch|change|set) (?:the )?language to (.+)$/,
+        languagePattern('(?:switch|change) to '),
+        languagePattern('(?:speak|use) '),
+      ],
+      es: [
+        /^(?:cambia|cambiar|pon|poner) (?:el )?idioma (?:a|al|en) (.+)$/,
+        languagePattern('(?:cambia|cambiar) (?:a|al) '),
+        languagePattern('habla (?:en )?'),
+      ],
+      fr: [
+        /^(?:change|changer|passe|passer) (?:la )?langue (?:en|à|au) (.+)$/,
+        languagePattern('(?:passe|passer) (?:en|à|au) '),
+        languagePattern('parle '),
+      ],
+      de: [
+        /^(?:ändere|wechsle|stelle) (?:die )?sprache (?:auf|zu|nach) (.+?)(?: um)?$/,
+        languagePattern('(?:wechsle|wechseln) (?:auf|zu|nach) '),
+        languagePattern('sprich '),
+      ],
+      pt: [
+        /^(?:mude|mudar|muda|troque|trocar) (?:o )?idioma para (.+)$/,
+        languagePattern('(?:mude|mudar|muda) para '),
+        languagePattern('fale (?:em )?'),
+      ],
+      ja: [languagePattern('(?:言語を)?', 'に(?:切り替えて|変えて|変更して|して)')]
+    },
+    verbs: {
+      en: ['switch', 'change', 'set', 'speak', 'use'],
+      es: ['cambia', 'cambiar', 'pon', 'poner', 'habla'],
+      fr: ['change', 'changer', 'passe', 'passer', 'parle'],
+      de: ['ändere', 'wechsle', 'wechseln', 'stelle', 'sprich'],
+      pt: ['mude', 'mudar', 'muda', 'troque', 'trocar', 'fale']
+    },
+    slots: ['language'],
+    values: { text: 'language' },
+    questions: { language: 'Which language should I switch to?' },
+    usage: 'Switch to [language]',
+    help: 'Change the language you speak commands in',
+    examples: ['Switch to Spanish', 'Change language to French'],
+    handler: changeSetting
+  },
+  {
+    id: 'haptics-on',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:enable haptics|turn on (?:the )?vibration)$/],
+      es: [/^(?:activar|activa) (?:la )?vibración$/],
+      fr: [/^(?:activer|active) (?:les )?vibrations?$/],
+      de: [/^(?:vibration (?:an|einschalten)|haptik an)$/],
+      pt: [/^(?:ativar|ativa|ligar|liga) (?:a )?vibração$/],
+      ja: [/^振動を?(?:オン|有効)(?:にして)?$/]
+    },
+    verbs: {
+      en: ['enable', 'turn on'],
+      es: ['activar', 'activa'],
+      fr: ['activer', 'active'],
+      de: ['vibration', 'haptik'],
+      pt: ['ativar', 'ativa', 'ligar', 'liga']
+    },
+    slots: [],
+    values: { text: 'haptics:on' },
+    usage: 'Enable haptics',
+    help: 'Turn on vibration feedback',
+    examples: ['Enable haptics'],
+    mobileOnly: true,
+    handler: changeSetting
+  },
+  {
+    id: 'haptics-off',
+    action: 'setting',
+    category: 'view',
+    patterns: {
+      en: [/^(?:disable haptics|turn off (?:the )?vibration)$/],
+      es: [/^(?:desactivar|desactiva) (?:la )?vibración$/],
+      fr: [/^(?:désactiver|désactive) (?:les )?vibrations?$/],
+      de: [/^(?:vibration (?:aus|ausschalten)|haptik aus)$/],
+      pt: [/^(?:desativar|desativa|desligar|desliga) (?:a )?vibração$/],
+      ja: [/^振動を?(?:オフ|無効)(?:にして)?$/]
+    },
+    verbs: {
+      en: ['disable', 'turn off'],
+      es: ['desactivar', 'desactiva'],
+      fr: ['désactiver', 'désactive'],
+      de: ['vibration', 'haptik'],
+      pt: ['desativar', 'desativa', 'desligar', 'desliga']
+    },
+    slots: [],
+    values: { text: 'haptics:off' },
+    usage: 'Disable haptics',
+    help: 'Turn off vibration feedback',
+    examples: ['Disable haptics'],
+    mobileOnly: true,
+    handler: changeSetting
+  },
+  {
+    id: 'help',
+    action: 'help',
+    category: 'view',
+    patterns: {
+      en: [/^(?:help|help me|show help|what can you do|what can i say|(?:show |list )?(?:the )?commands)$/],
+      es: [/^(?:ayuda|ayúdame|qué puedes hacer|qué puedo decir|comandos)$/],
+      fr: [/^(?:aide|aide-moi|que peux-tu faire|qu'est-ce que je peux dire|commandes)$/],
+      de: [/^(?:hilfe|was kannst du(?: tun)?|was kann ich sagen|befehle)$/],
+      pt: [/^(?:ajuda|me ajuda|o que você pode fazer|o que posso dizer|comandos)$/],
+      ja: [/^(?:ヘルプ|何ができる(?:の)?|何ができますか|コマンド(?:一覧)?)$/]
+    },
+    verbs: {
+      en: ['help', 'what can you do', 'commands'],
+      es: ['ayuda', 'qué puedes hacer', 'comandos'],
+      fr: ['aide', 'que peux-tu faire', 'commandes'],
+      de: ['hilfe', 'was kannst du', 'befehle'],
+      pt: ['ajuda', 'o que você pode fazer', 'comandos']
+    },
+    slots: [],
+    usage: 'Help',
+    help: 'Hear what you can say',
+    examples: ['Help'],
+    mobileOnly: true,
+    handler: (_command, context) => {
+      const examples = COMMANDS
+        .filter(command => command.suggestions)
+        .map(command => command.examples[0]);
+      context.announce({ action: 'help', message: `You can say: ${examples.join(', ')}.` });
+    }
+  },
+  {
+    id: 'summary',
+    action: 'summary',
+    category: 'view',
+    patterns: {
+      en: [/^(?:summary|status|how am i doing|give me a summary)$/],
+      es: [/^(?:resumen|estado|cómo voy|dame un resumen)$/],
+      fr: [/^(?:résumé|état|où j'en suis|fais-moi un résumé)$/],
+      de: [/^(?:zusammenfassung|status|wie stehe ich)$/],
+      pt: [/^(?:resumo|status|como estou|me dá um resumo)$/],
+      ja: [/^(?:まとめ|状況|進捗|サマリー)(?:を教えて)?$/]
+    },
+    verbs: {
+      en: ['summary', 'how am i doing'],
+      es: ['resumen', 'cómo voy'],
+      fr: ['résumé', "où j'en suis"],
+      de: ['zusammenfassung', 'wie stehe ich'],
+      pt: ['resumo', 'como estou']
+    },
+    slots: [],
+    usage: 'Summary',
+    help: 'Hear how many tasks are left',
+    examples: ['Summary', 'Status'],
+    mobileOnly: true,
+    handler: (_command, context) => {
+      context.announce({ action: 'summary', message: context.summarize() });
+    }
+  },
+  {
+    id: 'query',
+    action: 'query',
+    category: 'view',
+    patterns: {
+      en: [
+        /^what(?:'s| is| do i have) (due (?:today|tonight|tomorrow|this week)|overdue)$/,
+        /^what(?:'s| is) (on my (?:to ?do |to-do )?list.*)$/,
+        /^what(?:'s| is) (left.*)$/,
+        /^what (?:do i have|have i got)(.*)$/,
+        /^what (.+?) tasks do i have$/,
+        /^(?:read|list|tell me)(?: me)?(?: out)? (.*(?:tasks|todos|to dos|to-dos|list))$/,
+      ],
+      es: [
+        /^(?:qué|que) (?:tengo|hay)(.*)$/,
+        /^(?:lee|léeme|leer|dime) (.*(?:tareas|pendientes|lista).*)$/,
+      ],
+      fr: [
+        /^(?:qu'est-ce que j'ai|qu'ai-je)(.*)$/,
+        /^(?:lis|lire|lis-moi|liste) (.*(?:tâches|liste).*)$/,
+      ],
+      de: [
+        /^was (?:habe ich|steht)(.*)$/,
+        /^(?:lies|nenne)(?: mir)? (.*(?:aufgaben|liste).*)$/,
+      ],
+      pt: [
+        /^o que (?:eu )?tenho(.*)$/,
+        /^(?:leia|lê|ler)(?: para mim)? (.*(?:tarefas|lista).*)$/,
+      ],
+      ja: [/^(.*)(?:タスク|やること)を?(?:読んで|読み上げて|教えて)(?:ください)?$/]
+    },
+    verbs: {
+      en: ['what', "what's", 'read', 'list', 'tell me'],
+      es: ['qué', 'que', 'lee', 'léeme', 'leer', 'dime'],
+      fr: ["qu'est-ce", "qu'ai-je", 'lis', 'lire', 'lis-moi', 'liste'],
+      de: ['was', 'lies', 'nenne'],
+      pt: ['o que', 'leia', 'lê', 'ler']
+    },
+    slots: ['query'],
+    usage: "What's on my list",
+    help: 'Hear your tasks read aloud, filtered by status, priority, category or due date',
+    examples: ["What's on my list", "What's due today", 'Read my work tasks', 'Read my high priority tasks'],
+    suggestions: [
+      { example: "What's on my list", description: 'Hear your open tasks', rank: 5, minTodos: 1 },
+      { example: "What's due today", description: 'Hear what is due today', rank: 7, minTodos: 2 }
+    ],
+    handler: (command, context) => {
+      const query = { ...command.query, status: command.query?.status ?? 'active' };
+      const tasks = queryTodos(context.todos, query);
+      context.readTasks(tasks, describeTaskQuery(query, tasks.length));
+    }
+  },
+  {
+    id: 'read-more',
+    action: 'read_more',
+    category: 'view',
+    patterns: {
+      en: [/^(?:next|more|continue|keep going|go on|read more)(?: (\S+))?(?: (?:more|tasks|please))?$/],
+      es: [/^(?:siguientes?|más|continúa|sigue)(?: (\S+))?$/],
+      fr: [/^(?:suivant|suivantes|encore|continue|la suite)(?: (\S+))?$/],
+      de: [/^(?:weiter|nächste|mehr)(?: (\S+))?$/],
+      pt: [/^(?:próximas?|próximos?|mais|continua|continue)(?: (\S+))?$/],
+      ja: [/^(?:次|続けて|もっと)$/]
+    },
+    slots: ['count'],
+    usage: 'Next',
+    help: 'Keep reading a long list; say stop to end',
+    examples: ['Next', 'Next five'],
+    handler: (command, context) => {
+      context.readMore(command.count);
+    }
+  },
+  {
+    // After help and summary so "show help" is not a filter
+    id: 'show-filtered',
+    action: 'filter',
+    category: 'view',
+    patterns: {
+      en: [/^(?:show|only show|filter(?: by)?)(?: me)?(?: only)?(?: my)? (.+)$/],
+      es: [/^(?:mostrar|muestra|muéstrame|filtra)(?: solo| solamente)? (.+)$/],
+      fr: [/^(?:afficher|affiche|montre|montre-moi|filtre)(?: seulement| uniquement)? (.+)$/],
+      de: [/^(?:zeige|zeig)(?: mir)?(?: nur)? (.+)$/],
+      pt: [/^(?:mostrar|mostra|mostre|filtrar|filtra)(?: só| apenas| somente)? (.+)$/],
+      ja: [/^(.+?)(?:だけ|のみ)?を?(?:表示|見せて)(?:して)?$/]
+    },
+    verbs: {
+      en: ['show', 'only show', 'filter'],
+      es: ['mostrar', 'muestra', 'muéstrame', 'filtra'],
+      fr: ['afficher', 'affiche', 'montre', 'montre-moi', 'filtre'],
+      de: ['zeige', 'zeig'],
+      pt: ['mostrar', 'mostra', 'mostre', 'filtrar', 'filtra']
+    },
+    slots: ['query'],
+    usage: 'Show only [filter]',
+    help: 'Filter the list by status, priority and category',
+    examples: ['Show only high priority work tasks', 'Show completed shopping tasks'],
+    suggestions: [
+      { example: 'Show only high priority tasks', description: 'Filter the list', rank: 9, minTodos: 3 }
+    ],
+    handler: showFilter
+  },
+  {
+    id: 'sort-list',
+    action: 'sort',
+    category: 'view',
+    patterns: {
+      en: [/^sort(?: (?:the|my) (?:list|tasks|to ?dos))?(?: by)? (.+?)(?: first)?$/],
+      es: [/^(?:ordena|ordenar)(?: (?:la lista|las tareas|mis tareas))?(?: por)? (.+?)(?: primero)?$/],
+      fr: [/^(?:trie|trier|classe|classer)(?: (?:la liste|les tâches|mes tâches))?(?: par)? (.+?)(?: d'abord)?$/],
+      de: [/^(?:sortiere|sortieren|ordne)(?: (?:die liste|die aufgaben|meine aufgaben))?(?: nach)? (.+?)(?: zuerst)?$/],
+      pt: [/^(?:ordene|ordena|ordenar|classifique)(?: (?:a lista|as tarefas|minhas tarefas))?(?: por)? (.+?)(?: primeiro)?$/],
+      ja: [/^(.+?)(?:順|で)に?(?:並べ替えて|並び替えて|並べて|ソートして)$/]
+    },
+    verbs: {
+      en: ['sort'],
+      es: ['ordena', 'ordenar'],
+      fr: ['trie', 'trier', 'classe', 'classer'],
+      de: ['sortiere', 'sortieren', 'ordne'],
+      pt: ['ordene', 'ordena', 'ordenar', 'classifique']
+    },
+    slots: ['sort'],
+    partial: [
+      {
+        patterns: {
+          en: [/^sort(?: (?:the|my) (?:list|tasks|to ?dos))?$/],
+          es: [/^(?:ordena|ordenar)(?: (?:la lista|las tareas|mis tareas))?$/],
+          fr: [/^(?:trie|trier|classe|classer)(?: (?:la liste|les tâches|mes tâches))?$/],
+          de: [/^(?:sortiere|sortieren|ordne)(?: (?:die liste|die aufgaben|meine aufgaben))?$/],
+          pt: [/^(?:ordene|ordena|ordenar|classifique)(?: (?:a lista|as tarefas|minhas tarefas))?$/],
+          ja: [/^(?:並べ替えて|並び替えて|ソートして)$/]
+        },
+        slots: []
+      }
+    ],
+    questions: { sort: 'How should I sort it? By priority, due date, newest, oldest, A to Z or your own order?' },
+    usage: 'Sort by [order]',
+    help: 'Order the list by priority, due date, age or name',
+    examples: ['Sort by priority', 'Sort newest first', 'Sort alphabetically'],
+    suggestions: [
+      { example: 'Sort by due date', description: 'See what is due soonest', rank: 12, minTodos: 3 }
+    ],
+    handler: sortList
+  },
+  {
+    id: 'search',
+    action: 'search',
+    category: 'view',
+    patterns: {
+      en: [/^(?:find|search for|search|look for|look up)(?: (?:my |the )?(?:tasks? )?(?:about|with|for|mentioning|containing))? (.+)$/],
+      es: [/^(?:busca|buscar|encuentra)(?: (?:las )?tareas? (?:con|de|sobre))? (.+)$/],
+      fr: [/^(?:cherche|chercher|trouve)(?: (?:les )?tâches? (?:avec|sur))? (.+)$/],
+      de: [/^(?:suche|finde)(?: (?:nach|aufgaben mit))? (.+)$/],
+      pt: [/^(?:procure|procura|procurar|busque|busca)(?: (?:por|as tarefas com))? (.+)$/],
+      ja: [/^(.+?)を(?:検索|探して)(?:して)?$/]
+    },
+    verbs: {
+      en: ['find', 'search', 'look for', 'look up'],
+      es: ['busca', 'buscar', 'encuentra'],
+      fr: ['cherche', 'chercher', 'trouve'],
+      de: ['suche', 'finde'],
+      pt: ['procure', 'procura', 'procurar', 'busque', 'busca']
+    },
+    slots: ['search'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:find|search|search for|look for)$/],
+          es: [/^(?:busca|buscar|encuentra)$/],
+          fr: [/^(?:cherche|chercher|trouve)$/],
+          de: [/^(?:suche|finde)$/],
+          pt: [/^(?:procure|procura|procurar|busque|busca)$/],
+          ja: [/^(?:検索|探して)$/]
+        },
+        slots: []
+      }
+    ],
+    questions: { search: 'What should I look for?' },
+    usage: 'Find [words]',
+    help: 'Search your tasks, categories and notes',
+    examples: ['Find dentist', 'Search for invoices'],
+    suggestions: [
+      { example: 'Find dentist', description: 'Search tasks and notes', rank: 13, minTodos: 5 }
+    ],
+    handler: searchList
+  },
+  {
+    id: 'clear-search',
+    action: 'search',
+    category: 'view',
+    patterns: {
+      en: [/^(?:clear|cancel|close|stop|end) (?:the )?search(?:ing)?$/],
+      es: [/^(?:borra|borrar|quita|quitar|cancela|cancelar|cierra|cerrar|limpia|limpiar) (?:la )?búsqueda$/],
+      fr: [/^(?:efface|effacer|annule|annuler|ferme|fermer|arrête|arrêter) la recherche$/],
+      de: [/^(?:beende|lösche|schließe) (?:die )?suche$/],
+      pt: [/^(?:limpe|limpa|limpar|cancele|cancela|cancelar|feche|fecha|fechar) (?:a )?(?:busca|pesquisa)$/],
+      ja: [/^検索を?(?:クリア|解除|終了|やめて)(?:して)?$/]
+    },
+    verbs: {
+      en: ['clear', 'cancel', 'close', 'stop', 'end'],
+      es: ['borra', 'borrar', 'quita', 'quitar', 'cancela', 'cancelar', 'cierra', 'cerrar', 'limpia', 'limpiar'],
+      fr: ['efface', 'effacer', 'annule', 'annuler', 'ferme', 'fermer', 'arrête', 'arrêter'],
+      de: ['beende', 'lösche', 'schließe'],
+      pt: ['limpe', 'limpa', 'limpar', 'cancele', 'cancela', 'cancelar', 'feche', 'fecha', 'fechar']
+    },
+    slots: [],
+    usage: 'Clear search',
+    help: 'Show every task again after a search',
+    examples: ['Clear search'],
+    handler: searchList
+  },
+  {
+    id: 'set-priority',
+    action: 'set_priority',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:make|mark|set) (.+?) (?:as |to )?((?:high|medium|low|normal|top) priority|urgent|important)$/,
+        /^(?:set|change) (?:the )?priority (?:of|for|on) (.+?) to (.+)$/,
+        /^(?:set|change) (.+?)(?:'s)? priority to (.+)$/,
+      ],
+      es: [
+        /^(?:marca|marcar|pon|poner|haz) (.+?) (?:como )?(urgentes?|importantes?|(?:de )?prioridad (?:alta|media|baja)|(?:alta|baja) prioridad)$/,
+        /^(?:cambia|cambiar|pon|poner) (?:la )?prioridad de (.+?) (?:a|en) (.+)$/,
+      ],
+      fr: [
+        /^(?:rends|mets|marque) (.+?) (?:comme |en )?(urgente?|importante?|priorité (?:haute|moyenne|basse)|(?:haute|basse) priorité)$/,
+        /^(?:change|changer|mets|mettre) la priorité de (.+?) (?:à|en) (.+)$/,
+      ],
+      de: [
+        /^(?:markiere|setze|mache?) (.+?) (?:als |auf )?(dringend|wichtig|(?:hohe|mittlere|niedrige) priorität)$/,
+        /^(?:ändere|setze) (?:die )?priorität von (.+?) auf (.+)$/,
+      ],
+      pt: [
+        /^(?:marque|marca|marcar|deixe|deixa) (.+?) como (urgentes?|importantes?|prioridade (?:alta|média|baixa)|(?:alta|baixa) prioridade)$/,
+        /^(?:mude|muda|mudar|altere|altera) a prioridade de (.+?) para (.+)$/,
+      ],
+      ja: [/^(.+?)を(緊急|至急|重要|優先度[高中低]|[高中低]優先度?)に(?:して|する|変更して)$/]
+    },
+    verbs: {
+      en: ['make', 'mark', 'set', 'change'],
+      es: ['marca', 'marcar', 'pon', 'poner', 'haz', 'cambia', 'cambiar'],
+      fr: ['rends', 'mets', 'mettre', 'marque', 'change', 'changer'],
+      de: ['markiere', 'setze', 'mache', 'mach', 'ändere'],
+      pt: ['marque', 'marca', 'marcar', 'deixe', 'deixa', 'mude', 'muda', 'mudar', 'altere', 'altera']
+    },
+    slots: ['target', 'priority'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:set|change) (?:the )?priority (?:of|for|on) (.+)$/],
+          es: [/^(?:cambia|cambiar|pon|poner) (?:la )?prioridad de (.+)$/],
+          fr: [/^(?:change|changer|mets|mettre) la priorité de (.+)$/],
+          de: [/^(?:ändere|setze) (?:die )?priorität von (.+)$/],
+          pt: [/^(?:mude|muda|mudar|altere|altera) a prioridade de (.+)$/],
+          ja: [/^(.+?)の優先度を(?:変更|変えて)(?:して)?$/]
+        },
+        slots: ['target']
+      }
+    ],
+    questions: { target: 'Which task should I change?', priority: 'What priority should it be?' },
+    usage: 'Make task [number] urgent',
+    help: 'Change the priority of a task',
+    examples: ['Make task 2 urgent', 'Set the priority of groceries to low'],
+    suggestions: [
+      { example: 'Make task 1 urgent', description: 'Change the priority of a task', rank: 6, minTodos: 1 }
+    ],
+    handler: changePriority
+  },
+  {
+    id: 'raise-priority',
+    action: 'set_priority',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:raise|increase|bump up|bump) (?:the )?priority (?:of|for|on) (.+)$/,
+        /^(?:raise|increase|bump up|bump) (.+?)(?:'s)? priority$/,
+        /^prioriti[sz]e (.+)$/,
+      ],
+      es: [/^(?:sube|subir|aumenta|aumentar) (?:la )?prioridad de (.+)$/],
+      fr: [/^(?:augmente|augmenter|monte|monter) la priorité de (.+)$/],
+      de: [/^(?:erhöhe|erhöhen) (?:die )?priorität von (.+)$/],
+      pt: [/^(?:aumente|aumenta|aumentar|suba|sobe|subir) a prioridade de (.+)$/],
+      ja: [/^(.+?)の優先度を上げ(?:て|る)$/]
+    },
+    verbs: {
+      en: ['raise', 'increase', 'bump', 'prioritise', 'prioritize'],
+      es: ['sube', 'subir', 'aumenta', 'aumentar'],
+      fr: ['augmente', 'augmenter', 'monte', 'monter'],
+      de: ['erhöhe', 'erhöhen'],
+      pt: ['aumente', 'aumenta', 'aumentar', 'suba', 'sobe', 'subir']
+    },
+    slots: ['target'],
+    values: { priorityStep: 1 },
+    usage: 'Raise the priority of [task]',
+    help: 'Move a task up one priority level',
+    examples: ['Raise the priority of task 3'],
+    handler: changePriority
+  },
+  {
+    id: 'lower-priority',
+    action: 'set_priority',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:lower|decrease|reduce|drop) (?:the )?priority (?:of|for|on) (.+)$/,
+        /^(?:lower|decrease|reduce|drop) (.+?)(?:'s)? priority$/,
+        /^deprioriti[sz]e (.+)$/,
+      ],
+      es: [/^(?:baja|bajar|reduce|reducir|disminuye) (?:la )?prioridad de (.+)$/],
+      fr: [/^(?:baisse|baisser|diminue|diminuer|réduis) la priorité de (.+)$/],
+      de: [/^(?:senke|senken|verringere) (?:die )?priorität von (.+)$/],
+      pt: [/^(?:diminua|diminui|diminuir|baixe|baixa|baixar|reduza) a prioridade de (.+)$/],
+      ja: [/^(.+?)の優先度を下げ(?:て|る)$/]
+    },
+    verbs: {
+      en: ['lower', 'decrease', 'reduce', 'drop', 'deprioritise', 'deprioritize'],
+      es: ['baja', 'bajar', 'reduce', 'reducir', 'disminuye'],
+      fr: ['baisse', 'baisser', 'diminue', 'diminuer', 'réduis'],
+      de: ['senke', 'senken', 'verringere'],
+      pt: ['diminua', 'diminui', 'diminuir', 'baixe', 'baixa', 'baixar', 'reduza']
+    },
+    slots: ['target'],
+    values: { priorityStep: -1 },
+    usage: 'Lower the priority of [task]',
+    help: 'Move a task down one priority level',
+    examples: ['Lower the priority of groceries'],
+    handler: changePriority
+  },
+  {
+    id: 'move-up',
+    action: 'reorder',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:move|put) (.+?) up(?: one(?: place| spot)?)?$/],
+      es: [/^(?:sube|subir) (?:la )?(.+?)(?: un puesto| una posición)?$/],
+      fr: [/^(?:monte|monter|remonte|remonter) (?:la )?(.+?)(?: d'un cran| d'une place)?$/],
+      de: [/^(?:verschiebe|schiebe) (.+?) (?:hoch|(?:eins|eine stelle) nach oben)$/],
+      pt: [/^(?:suba|sobe|subir) (?:a )?(.+?)(?: uma posição)?$/],
+      ja: [/^(.+?)を(?:一つ|ひとつ|1つ)上に(?:移動|動か)(?:して|す)?$/]
+    },
+    verbs: {
+      en: ['move', 'put'],
+      es: ['sube', 'subir'],
+      fr: ['monte', 'monter', 'remonte', 'remonter'],
+      de: ['verschiebe', 'schiebe'],
+      pt: ['suba', 'sobe', 'subir']
+    },
+    slots: ['target'],
+    values: { placement: 'up' },
+    usage: 'Move [task] up',
+    help: 'Move a task one place up the list',
+    examples: ['Move task 3 up'],
+    handler: reorderTodo
+  },
+  {
+    id: 'move-down',
+    action: 'reorder',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:move|put) (.+?) down(?: one(?: place| spot)?)?$/],
+      es: [/^(?:baja|bajar) (?:la )?(.+?)(?: un puesto| una posición)?$/],
+      fr: [/^(?:descends|descendre) (?:la )?(.+?)(?: d'un cran| d'une place)?$/],
+      de: [/^(?:verschiebe|schiebe) (.+?) (?:runter|(?:eins|eine stelle) nach unten)$/],
+      pt: [/^(?:desça|desce|descer) (?:a )?(.+?)(?: uma posição)?$/],
+      ja: [/^(.+?)を(?:一つ|ひとつ|1つ)下に(?:移動|動か)(?:して|す)?$/]
+    },
+    verbs: {
+      en: ['move', 'put'],
+      es: ['baja', 'bajar'],
+      fr: ['descends', 'descendre'],
+      de: ['verschiebe', 'schiebe'],
+      pt: ['desça', 'desce', 'descer']
+    },
+    slots: ['target'],
+    values: { placement: 'down' },
+    usage: 'Move [task] down',
+    help: 'Move a task one place down the list',
+    examples: ['Move laundry down'],
+    handler: reorderTodo
+  },
+  {
+    id: 'move-to-end',
+    action: 'reorder',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:move|put) (.+?) (?:to|at) the (top|bottom|start|beginning|end)(?: of (?:the |my )?list)?$/],
+      es: [/^(?:mueve|mover|pon|poner|pasa) (?:la )?(.+?) (?:al |a la |hacia )?(arriba|abajo|principio|inicio|final)(?: de (?:la|mi) lista)?$/],
+      fr: [/^(?:déplace|déplacer|mets|mettre|place) (?:la )?(.+?) (?:en |au |à la )?(haut|bas|début|fin)(?: de (?:la|ma) liste)?$/],
+      de: [/^(?:verschiebe|schiebe) (.+?) (?:ganz )?(?:nach |an den |ans |an das )?(oben|unten|anfang|ende)(?: der liste)?$/],
+      pt: [/^(?:mova|move|mover|coloque|coloca|ponha) (?:a )?(.+?) (?:para o |para |no |ao )?(topo|cima|início|começo|baixo|fim|final)(?: da lista)?$/],
+      ja: [/^(.+?)を(?:一番)?(上|下|先頭|最後)に(?:移動|動か)(?:して|す)?$/]
+    },
+    verbs: {
+      en: ['move', 'put'],
+      es: ['mueve', 'mover', 'pon', 'poner', 'pasa'],
+      fr: ['déplace', 'déplacer', 'mets', 'mettre', 'place'],
+      de: ['verschiebe', 'schiebe'],
+      pt: ['mova', 'move', 'mover', 'coloque', 'coloca', 'ponha']
+    },
+    slots: ['target', 'placement'],
+    usage: 'Move [task] to the top',
+    help: 'Change the order of your list',
+    examples: ['Move task 4 to the top'],
+    suggestions: [
+      { example: 'Move task 2 to the top', description: 'Put a task first', rank: 11, minTodos: 2 }
+    ],
+    handler: reorderTodo
+  },
+  {
+    id: 'move-next-to',
+    action: 'reorder',
+    category: 'manage',
+    patterns: {
+      en: [/^(?:move|put) (.+?) (below|after|above|before) (.+)$/],
+      es: [/^(?:mueve|mover|pon|poner|pasa) (?:la )?(.+?) (antes de|después de|encima de|debajo de) (?:la )?(.+)$/],
+      fr: [/^(?:déplace|déplacer|mets|mettre|place) (?:la )?(.+?) (avant|après|au-dessus de|en dessous de|sous) (?:la )?(.+)$/],
+      de: [/^(?:verschiebe|schiebe) (.+?) (vor|hinter|über|unter) (.+)$/],
+      pt: [/^(?:mova|move|mover|coloque|coloca|ponha) (?:a )?(.+?) (antes de|depois de|acima de|abaixo de) (?:a )?(.+)$/],
+      // The lookahead reads the placement before the anchor, the order the slots expect
+      ja: [/^(.+?)を(?=.+?(の(?:前|後ろ?|上|下))に)(.+?)の(?:前|後ろ?|上|下)に(?:移動|動か)(?:して|す)?$/]
+    },
+    verbs: {
+      en: ['move', 'put'],
+      es: ['mueve', 'mover', 'pon', 'poner', 'pasa'],
+      fr: ['déplace', 'déplacer', 'mets', 'mettre', 'place'],
+      de: ['verschiebe', 'schiebe'],
+      pt: ['mova', 'move', 'mover', 'coloque', 'coloca', 'ponha']
+    },
+    slots: ['target', 'placement', 'anchor'],
+    usage: 'Move [task] below [task]',
+    help: 'Put a task just above or below another',
+    examples: ['Move groceries below laundry'],
+    handler: reorderTodo
+  },
+  {
+    id: 'set-category',
+    action: 'set_category',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:move|put|file) (.+?) (?:to|in|into|under) (.+)$/,
+        /^(?:tag|label|categori[sz]e) (.+?) (?:as|with) (.+)$/,
+        /^(?:set|change) (?:the )?category (?:of|for|on) (.+?) to (.+)$/,
+        /^(?:set|change) (.+?)(?:'s)? category to (.+)$/,
+      ],
+      es: [
+        /^(?:mueve|mover|pasa|pasar) (.+?) a (.+)$/,
+        /^(?:cambia|cambiar|pon|poner) (?:la )?categoría de (.+?) (?:a|en) (.+)$/,
+      ],
+      fr: [
+        /^(?:déplace|déplacer|mets|mettre|range|ranger) (.+?) dans (.+)$/,
+        /^(?:change|changer) la catégorie de (.+?) en (.+)$/,
+      ],
+      de: [
+        /^(?:verschiebe|schiebe) (.+?) (?:nach|in|zu) (.+)$/,
+        /^(?:ändere|setze) (?:die )?kategorie von (.+?) (?:auf|zu|in) (.+)$/,
+      ],
+      pt: [
+        /^(?:mova|move|mover|passe|passa) (.+?) para (.+)$/,
+        /^(?:mude|muda|mudar|altere|altera) a categoria de (.+?) para (.+)$/,
+      ],
+      ja: [/^(.+?)を(.+?)に移動(?:して|する)?$/]
+    },
+    verbs: {
+      en: ['move', 'put', 'file', 'tag', 'label', 'categorise', 'categorize', 'set', 'change'],
+      es: ['mueve', 'mover', 'pasa', 'pasar', 'cambia', 'cambiar', 'pon', 'poner'],
+      fr: ['déplace', 'déplacer', 'mets', 'mettre', 'range', 'ranger', 'change', 'changer'],
+      de: ['verschiebe', 'schiebe', 'ändere', 'setze'],
+      pt: ['mova', 'move', 'mover', 'passe', 'passa', 'mude', 'muda', 'mudar', 'altere', 'altera']
+    },
+    slots: ['target', 'category'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:move|file) (.+)$/, /^(?:set|change) (?:the )?category (?:of|for|on) (.+)$/],
+          es: [/^(?:cambia|cambiar|pon|poner) (?:la )?categoría de (.+)$/],
+          fr: [/^(?:change|changer) la catégorie de (.+)$/],
+          de: [/^(?:ändere|setze) (?:die )?kategorie von (.+)$/],
+          pt: [/^(?:mude|muda|mudar|altere|altera) a categoria de (.+)$/],
+          ja: [/^(.+?)のカテゴリー?を(?:変更|変えて)(?:して)?$/]
+        },
+        slots: ['target']
+      }
+    ],
+    questions: { target: 'Which task should I move?', category: 'Which category should it go in?' },
+    usage: 'Move [task] to [category]',
+    help: 'Change the category of a task',
+    examples: ['Move dentist to health', 'Tag task 3 as work'],
+    handler: changeCategory
+  },
+  {
+    id: 'untag',
+    action: 'set_category',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:untag|uncategori[sz]e) (.+)$/,
+        /^(?:remove|clear) (?:the )?(?:category|tag|tags|label) (?:from|of|on) (.+)$/,
+      ],
+      es: [/^(?:quita|quitar|elimina|borra) (?:la )?(?:categoría|etiqueta) de (.+)$/],
+      fr: [/^(?:enlève|enlever|supprime|retire) (?:la catégorie|l'étiquette) de (.+)$/],
+      de: [/^(?:entferne|lösche) (?:die )?(?:kategorie|etikett) von (.+)$/],
+      pt: [/^(?:remova|remove|tire|tira) a (?:categoria|etiqueta) de (.+)$/],
+      ja: [/^(.+?)の(?:カテゴリー?|タグ)を(?:外して|消して|削除して)$/]
+    },
+    verbs: {
+      en: ['untag', 'uncategorise', 'uncategorize', 'remove', 'clear'],
+      es: ['quita', 'quitar', 'elimina', 'borra'],
+      fr: ['enlève', 'enlever', 'supprime', 'retire'],
+      de: ['entferne', 'lösche'],
+      pt: ['remova', 'remove', 'tire', 'tira']
+    },
+    slots: ['target'],
+    values: { category: '' },
+    usage: 'Untag task [number]',
+    help: 'Remove the category from a task',
+    examples: ['Untag task 4'],
+    handler: changeCategory
+  },
+  {
+    id: 'bulk-add',
+    action: 'bulk_add',
+    category: 'create',
+    patterns: {
+      en: [/^(?:add multiple(?: tasks| things| items)?|bulk add)$/],
+      es: [/^(?:añadir|añade|agregar|agrega) (?:varias|varios)(?: tareas| cosas)?$/],
+      fr: [/^(?:ajouter plusieurs(?: tâches| choses)?|ajout multiple)$/],
+      de: [/^(?:mehrere (?:aufgaben )?hinzufügen|mehrere aufgaben)$/],
+      pt: [/^adicionar (?:várias|vários)(?: tarefas| itens| coisas)?$/],
+      ja: [/^(?:まとめて追加|複数追加)(?:して)?$/]
+    },
+    verbs: {
+      en: ['add', 'bulk add'],
+      es: ['añadir', 'agregar'],
+      fr: ['ajouter', 'ajout'],
+      de: ['mehrere'],
+      pt: ['adicionar']
+    },
+    slots: [],
+    usage: 'Add multiple tasks',
+    help: 'Dictate several tasks, then say done',
+    examples: ['Bulk add', 'Add multiple tasks'],
+    handler: (_command, context) => {
+      context.startDictation();
+      context.announce({
+        action: 'bulk_add',
+        message: 'Bulk add started. Say each task, then say done when you are finished.'
+      });
+    }
+  },
+  {
+    id: 'add-step',
+    action: 'add_subtask',
+    category: 'create',
+    patterns: {
+      // A bare "add step" matches the first pattern and asks for the step
+      en: [/^add (?:a )?(?:step|subtask|sub task)$/, /^add (?:a )?(?:step|subtask|sub task) (.+?)(?: (?:to|for) (.+))?$/],
+      es: [
+        /^(?:añade|añadir|agrega|agregar) (?:un )?(?:paso|subtarea)$/,
+        /^(?:añade|añadir|agrega|agregar) (?:un )?(?:paso|subtarea) (.+?)(?: (?:a|para) (.+))?$/,
+      ],
+      fr: [
+        /^(?:ajoute|ajouter) (?:une )?(?:étape|sous-tâche)$/,
+        /^(?:ajoute|ajouter) (?:une )?(?:étape|sous-tâche) (.+?)(?: (?:à|pour) (.+))?$/,
+      ],
+      de: [
+        /^füge (?:einen )?(?:schritt|unteraufgabe)(?: hinzu)?$/,
+        /^füge (?:einen )?(?:schritt|unteraufgabe) (.+?)(?: (?:zu|bei) (.+?))?(?: hinzu)?$/,
+      ],
+      pt: [
+        /^(?:adicione|adiciona|adicionar) (?:um |uma )?(?:passo|etapa|subtarefa)$/,
+        /^(?:adicione|adiciona|adicionar) (?:um |uma )?(?:passo|etapa|subtarefa) (.+?)(?: (?:a|em|para) (.+))?$/,
+      ],
+      ja: [
+        /^(?:ステップ|手順|サブタスク)を?追加(?:して)?$/,
+        /^(?:ステップ|手順|サブタスク)\s*(.+)を(.+?)に追加(?:して)?$/,
+        /^(?:ステップ|手順|サブタスク)\s*(.+)を追加(?:して)?$/,
+      ]
+    },
+    verbs: {
+      en: ['add'],
+      es: ['añade', 'añadir', 'agrega', 'agregar'],
+      fr: ['ajoute', 'ajouter'],
+      de: ['füge'],
+      pt: ['adicione', 'adiciona', 'adicionar']
+    },
+    slots: ['step', 'target'],
+    questions: {
+      step: 'What is the step?',
+      target: 'Which task is this step for?'
+    },
+    usage: 'Add step [step] to [task]',
+    help: 'Add a checklist step to a task',
+    examples: ['Add step buy paint to redecorate'],
+    suggestions: [
+      { example: 'Add step buy paint to redecorate', description: 'Break a task into steps', rank: 9, minTodos: 1 }
+    ],
+    handler: addStep
+  },
+  {
+    id: 'add-note',
+    action: 'add_note',
+    category: 'manage',
+    patterns: {
+      en: [
+        // "add note to task 2: bring the receipt", or with "saying" where no colon is heard
+        /^add (?:a )?note (?:to|for|on) (.+?)(?:\s*[:,]| colon| saying| that says)\s+(.+)$/,
+        /^add (?:a )?note (?:to|for|on) ((?:task|number|item) \S+) (.+)$/,
+        /^add (?:a )?note (?:to|for|on) (.+)$/
+      ],
+      es: [
+        /^(?:añade|añadir|agrega|agregar) (?:una )?nota (?:a|en|para) (?:la )?(.+?)(?:\s*[:,]| dos puntos| que diga| diciendo)\s+(.+)$/,
+        /^(?:añade|añadir|agrega|agregar) (?:una )?nota (?:a|en|para) (?:la )?((?:tarea|número) \S+) (.+)$/,
+        /^(?:añade|añadir|agrega|agregar) (?:una )?nota (?:a|en|para) (?:la )?(.+)$/
+      ],
+      fr: [
+        /^(?:ajoute|ajouter) (?:une )?note (?:à|sur|pour) (?:la )?(.+?)(?:\s*[:,]| deux points| disant| qui dit)\s+(.+)$/,
+        /^(?:ajoute|ajouter) (?:une )?note (?:à|sur|pour) (?:la )?((?:tâche|numéro) \S+) (.+)$/,
+        /^(?:ajoute|ajouter) (?:une )?note (?:à|sur|pour) (?:la )?(.+)$/
+      ],
+      de: [
+        /^füge (?:eine )?notiz (?:zu|bei|an) (.+?)(?:\s*[:,]| doppelpunkt| mit dem text)\s+(.+?)(?: hinzu)?$/,
+        /^füge (?:eine )?notiz (?:zu|bei|an) ((?:aufgabe|nummer) \S+) (.+?)(?: hinzu)?$/,
+        /^füge (?:eine )?notiz (?:zu|bei|an) (.+?)(?: hinzu)?$/
+      ],
+      pt: [
+        /^(?:adicione|adiciona|adicionar) (?:uma )?nota (?:a|à|em|na|no|para) (?:a )?(.+?)(?:\s*[:,]| dois pontos| dizendo| que diz)\s+(.+)$/,
+        /^(?:adicione|adiciona|adicionar) (?:uma )?nota (?:a|à|em|na|no|para) (?:a )?((?:tarefa|número) \S+) (.+)$/,
+        /^(?:adicione|adiciona|adicionar) (?:uma )?nota (?:a|à|em|na|no|para) (?:a )?(.+)$/
+      ],
+      ja: [
+        /^(.+?)に(?:メモ|ノート)を?追加(?:して)?$/,
+        /^(.+?)に(?:メモ|ノート)「?(.+?)」?を?追加(?:して)?$/
+      ]
+    },
+    verbs: {
+      en: ['add'],
+      es: ['añade', 'añadir', 'agrega', 'agregar'],
+      fr: ['ajoute', 'ajouter'],
+      de: ['füge'],
+      pt: ['adicione', 'adiciona', 'adicionar']
+    },
+    slots: ['target', 'note'],
+    questions: { note: 'What should the note say?' },
+    usage: 'Add note to [task]: [note]',
+    help: 'Add a note to a task; say comma, period or new line for punctuation',
+    examples: ['Add note to task 2: bring the receipt'],
+    suggestions: [
+      { example: 'Add note to task 1: bring the receipt', description: 'Keep details with a task', rank: 10, minTodos: 1 }
+    ],
+    handler: (command, context) => {
+      const todo = context.resolveTarget(command);
+      if (todo && command.note) {
+        context.appendTodoNote(todo.id, command.note);
+      }
+    }
+  },
+  {
+    id: 'remind-at',
+    action: 'remind',
+    category: 'create',
+    patterns: {
+      en: [/^remind me ((?:at|on|in|by|tomorrow|tonight|today|this|next)\b.*?) to (.+)$/],
+      es: [/^recuérdame ((?:a las|a la|el|en|dentro de|mañana|pasado mañana|hoy|esta|este)(?: .*?)?) que (.+)$/],
+      fr: [/^rappelle[- ]moi ((?:à|le|dans|demain|après-demain|ce|cet|cette|aujourd'hui)(?: .*?)?) (?:de |d')(.+)$/],
+      de: [/^erinnere mich ((?:um|am|in|bis|morgen|übermorgen|heute)(?: .*?)?),? daran,? (.+)$/],
+      pt: [/^(?:me lembre|lembre-me|me lembra) ((?:às|as|amanhã|depois de amanhã|hoje|em|no|na|daqui)(?: .*?)?) de (.+)$/]
+    },
+    verbs: {
+      en: ['remind me'],
+      es: ['recuérdame'],
+      fr: ['rappelle-moi', 'rappelle moi'],
+      de: ['erinnere mich'],
+      pt: ['me lembre', 'lembre-me', 'me lembra']
+    },
+    slots: ['reminder', 'task'],
+    questions: {
+      task: 'What should I remind you about?',
+      reminder: 'When should I remind you?'
+    },
+    usage: 'Remind me at [time] to [task]',
+    help: 'Add a task and get a notification when it is due',
+    examples: ['Remind me at 6pm to call mom'],
+    suggestions: [
+      { example: 'Remind me at 6pm to call mom', description: 'Task with a notification', rank: 7 }
+    ],
+    handler: addReminder
+  },
+  {
+    id: 'remind',
+    action: 'remind',
+    category: 'create',
+    patterns: {
+      en: [/^remind me (?:to|about) (.+)$/],
+      es: [/^recuérdame (?:que |de )?(.+)$/],
+      fr: [/^rappelle[- ]moi (?:de |d')(.+)$/],
+      de: [/^erinnere mich (?:daran,? )?(?:zu |an )?(.+)$/],
+      pt: [/^(?:me lembre|lembre-me|me lembra) de (.+)$/],
+      ja: [/^(.+?)(?:と|を)(?:リマインドして|リマインド|知らせて)$/]
+    },
+    verbs: {
+      en: ['remind me'],
+      es: ['recuérdame'],
+      fr: ['rappelle-moi', 'rappelle moi'],
+      de: ['erinnere mich'],
+      pt: ['me lembre', 'lembre-me', 'me lembra']
+    },
+    // The time usually comes with the task, e.g. "remind me to call mom at 6pm"
+    slots: ['task', 'reminder'],
+    partial: [
+      {
+        patterns: {
+          en: [/^remind me(?: to)?$/],
+          es: [/^recuérdame(?: que)?$/],
+          fr: [/^rappelle[- ]moi(?: de)?$/],
+          de: [/^erinnere mich(?: daran)?$/],
+          pt: [/^(?:me lembre|lembre-me|me lembra)(?: de)?$/],
+          ja: [/^リマインド(?:して)?$/]
+        },
+        slots: []
+      }
+    ],
+    usage: 'Remind me to [task] at [time]',
+    help: 'Add a task and get a notification when it is due',
+    examples: ['Remind me to pay rent tomorrow'],
+    handler: addReminder
+  },
+  {
+    id: 'add',
+    action: 'add',
+    category: 'create',
+    patterns: {
+      en: [
+        /^add (.+)$/,
+        /^create (.+)$/,
+        /^new (.+)$/,
+        /^todo (.+)$/,
+        /^i need to (.+)$/,
+        // Mobile-friendly variations
+        /^hey add (.+)$/,
+        /^okay add (.+)$/,
+        /^please add (.+)$/,
+        /^can you add (.+)$/,
+      ],
+      es: [
+        /^(?:añadir|añade|agregar|agrega|crear|crea|nueva|nuevo|apunta|anota) (.+)$/,
+        /^tengo que (.+)$/,
+      ],
+      fr: [
+        /^(?:ajouter|ajoute|créer|crée|nouvelle|nouveau|note) (.+)$/,
+        /^je dois (.+)$/,
+      ],
+      de: [
+        /^füge (.+?)(?: hinzu)?$/,
+        /^(?:hinzufügen|neue aufgabe|neu|erstelle|notiere) (.+)$/,
+        /^ich muss (.+)$/,
+      ],
+      pt: [
+        /^(?:adicionar|adiciona|adicione|criar|cria|crie|nova|novo|anotar|anota|anote) (.+)$/,
+        /^preciso (.+)$/,
+      ],
+      // Japanese puts the verb last ("牛乳を買うを追加")
+      ja: [
+        /^(.+?)を?(?:追加|登録)(?:して(?:ください)?|する)?$/,
+        /^(?:追加|新規)\s*(.+)$/,
+      ]
+    },
+    verbs: {
+      en: ['add', 'create', 'new', 'todo', 'i need to', 'hey add', 'okay add', 'please add', 'can you add'],
+      es: ['añadir', 'añade', 'agregar', 'agrega', 'crear', 'crea', 'nueva', 'nuevo', 'apunta', 'anota', 'tengo que'],
+      fr: ['ajouter', 'ajoute', 'créer', 'crée', 'nouvelle', 'nouveau', 'note', 'je dois'],
+      de: ['füge', 'hinzufügen', 'neue aufgabe', 'neu', 'erstelle', 'notiere', 'ich muss'],
+      pt: ['adicionar', 'adiciona', 'adicione', 'criar', 'cria', 'crie', 'nova', 'novo', 'anotar', 'anota', 'anote', 'preciso']
+    },
+    slots: ['task'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:add|create|new|todo|new task|add a task|i need to|hey add|okay add|please add|can you add)$/],
+          es: [/^(?:añadir|añade|agregar|agrega|crear|crea|nueva tarea|tengo que)$/],
+          fr: [/^(?:ajouter|ajoute|créer|crée|nouvelle tâche|je dois)$/],
+          de: [/^(?:hinzufügen|füge hinzu|neue aufgabe|erstelle|ich muss)$/],
+          pt: [/^(?:adicionar|adiciona|adicione|criar|cria|crie|nova tarefa|preciso)$/],
+          ja: [/^(?:追加|新規|追加して)$/]
+        },
+        slots: []
+      }
+    ],
+    questions: { task: 'What should I add?' },
+    usage: 'Add [task]',
+    help: 'Create a new task, optionally with a priority, category or due date',
+    examples: [
+      'Add buy groceries',
+      'Add call mom high priority',
+      'Create workout plan',
+      'Add milk, eggs and bread'
+    ],
+    suggestions: [
+      { example: 'Add buy groceries', description: 'Create a new task', rank: 1 },
+      { example: 'Add call mom high priority', description: 'Create high priority task', rank: 2 }
+    ],
+    handler: (command, context) => {
+      if (command.text) {
+        context.addTodo(command.text, command.priority, command.category, command.dueDate, command.recurrence);
+      }
+    }
+  },
+  {
+    id: 'edit',
+    action: 'edit',
+    category: 'manage',
+    patterns: {
+      en: [
+        /^(?:change|edit|rename|update) (?:task )?(.+?) to (.+)$/,
+      ],
+      es: [/^(?:cambiar|cambia|editar|edita|renombrar|renombra) (?:la )?(?:tarea )?(.+?) (?:a|por) (.+)$/],
+      fr: [/^(?:changer|change|modifier|modifie|renommer|renomme) (?:la )?(?:tâche )?(.+?) en (.+)$/],
+      de: [/^(?:ändere|bearbeite|benenne) (?:aufgabe )?(.+?) (?:in|zu) (.+?)(?: um)?$/],
+      pt: [/^(?:mudar|muda|mude|alterar|altera|altere|editar|edita|edite|renomear|renomeia|renomeie) (?:a )?(?:tarefa )?(.+?) para (.+)$/],
+      ja: [/^(.+?)を(.+?)に(?:変更|変えて|変える)(?:して(?:ください)?|する)?$/]
+    },
+    verbs: {
+      en: ['change', 'edit', 'rename', 'update'],
+      es: ['cambiar', 'cambia', 'editar', 'edita', 'renombrar', 'renombra'],
+      fr: ['changer', 'change', 'modifier', 'modifie', 'renommer', 'renomme'],
+      de: ['ändere', 'bearbeite', 'benenne'],
+      pt: ['mudar', 'muda', 'mude', 'alterar', 'altera', 'altere', 'editar', 'edita', 'edite', 'renomear', 'renomeia', 'renomeie']
+    },
+    slots: ['target', 'changes'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:change|edit|rename|update)(?: a task)?$/],
+          es: [/^(?:cambiar|cambia|editar|edita|renombrar|renombra)$/],
+          fr: [/^(?:changer|change|modifier|modifie|renommer|renomme)$/],
+          de: [/^(?:ändern|ändere|bearbeiten|bearbeite|umbenennen)$/],
+          pt: [/^(?:mudar|muda|mude|alterar|altera|altere|editar|edita|edite|renomear)$/],
+          ja: [/^(?:変更|編集)(?:して|する)?$/]
+        },
+        slots: []
+      },
+      {
+        patterns: {
+          en: [/^(?:change|edit|rename|update) (?:task )?(.+)$/],
+          es: [/^(?:cambiar|cambia|editar|edita|renombrar|renombra) (?:la )?(?:tarea )?(.+)$/],
+          fr: [/^(?:changer|change|modifier|modifie|renommer|renomme) (?:la )?(?:tâche )?(.+)$/],
+          de: [/^(?:ändere|bearbeite|benenne) (?:aufgabe )?(.+?)(?: um)?$/],
+          pt: [/^(?:mudar|muda|mude|alterar|altera|altere|editar|edita|edite|renomear|renomeia|renomeie) (?:a )?(?:tarefa )?(.+)$/],
+          ja: [/^(.+?)を(?:変更|編集)(?:して|する)?$/]
+        },
+        slots: ['target']
+      }
+    ],
+    questions: { target: 'Which task should I change?', changes: 'What should I change it to?' },
+    usage: 'Change task [number] to [task]',
+    help: 'Rewrite a task or change its priority, category or due date',
+    examples: ['Change task 2 to buy oat milk', 'Rename groceries to weekly shop'],
+    suggestions: [
+      { example: 'Change task 1 to buy oat milk', description: 'Rewrite a task', rank: 5, minTodos: 1 }
+    ],
+    handler: (command, context) => {
+      const todo = context.resolveTarget(command);
+      if (todo) {
+        context.editTodo(todo.id, {
+          text: command.newText,
+          priority: command.priority,
+          category: command.category,
+          dueDate: command.dueDate,
+          recurrence: command.recurrence
+        });
+      }
+    }
+  },
+  {
+    id: 'complete-step-in',
+    action: 'complete_subtask',
+    category: 'complete',
+    patterns: {
+      en: [/^(?:complete|finish|check off|tick off|done with) (?:step|subtask|sub task) (.+?) (?:in|of|on|for|from) (.+)$/],
+      es: [/^(?:completa|completar|termina|terminar|marca) (?:el )?(?:paso|subtarea) (.+?) (?:de|en) (.+)$/],
+      fr: [/^(?:termine|terminer|coche|cocher|complète|compléter) (?:l'|la )?(?:étape|sous-tâche) (.+?) (?:de|dans) (.+)$/],
+      de: [/^(?:erledige|hake) (?:den )?(?:schritt|unteraufgabe) (.+?) (?:in|von|bei) (.+?)(?: ab)?$/],
+      pt: [/^(?:complete|conclua|conclui|termine|marque) (?:o |a )?(?:passo|etapa|subtarefa) (.+?) (?:de|em|da|do|na|no) (.+)$/],
+      // The lookahead reads the step before the task, the order the slots expect
+      ja: [/^(?=.+?の(?:ステップ|手順|サブタスク)\s*(.+?)を?完了(?:して)?$)(.+?)の(?:ステップ|手順|サブタスク)/]
+    },
+    verbs: {
+      en: ['complete', 'finish', 'check off', 'tick off', 'done with'],
+      es: ['completa', 'completar', 'termina', 'terminar', 'marca'],
+      fr: ['termine', 'terminer', 'coche', 'cocher', 'complète', 'compléter'],
+      de: ['erledige', 'hake'],
+      pt: ['complete', 'conclua', 'conclui', 'termine', 'marque']
+    },
+    slots: ['step', 'target'],
+    questions: { step: 'Which step?' },
+    usage: 'Complete step [step] in [task]',
+    help: 'Check off one step of a task',
+    examples: ['Check off step buy paint in redecorate'],
+    handler: completeStep
+  },
+  {
+    id: 'complete-step',
+    action: 'complete_subtask',
+    category: 'complete',
+    patterns: {
+      // A bare "complete step" matches the first pattern and asks which step
+      en: [/^(?:complete|finish|check off|tick off|done with) (?:step|subtask|sub task)$/, /^(?:complete|finish|check off|tick off|done with) (?:step|subtask|sub task) (.+)$/],
+      es: [
+        /^(?:completa|completar|termina|terminar|marca) (?:el )?(?:paso|subtarea)$/,
+        /^(?:completa|completar|termina|terminar|marca) (?:el )?(?:paso|subtarea) (.+)$/,
+      ],
+      fr: [
+        /^(?:termine|terminer|coche|cocher|complète|compléter) (?:l'|la )?(?:étape|sous-tâche)$/,
+        /^(?:termine|terminer|coche|cocher|complète|compléter) (?:l'|la )?(?:étape|sous-tâche) (.+)$/,
+      ],
+      de: [
+        /^(?:erledige|hake) (?:den )?(?:schritt|unteraufgabe)(?: ab)?$/,
+        /^(?:erledige|hake) (?:den )?(?:schritt|unteraufgabe) (.+?)(?: ab)?$/,
+      ],
+      pt: [
+        /^(?:complete|conclua|conclui|termine|marque) (?:o |a )?(?:passo|etapa|subtarefa)$/,
+        /^(?:complete|conclua|conclui|termine|marque) (?:o |a )?(?:passo|etapa|subtarefa) (.+)$/,
+      ],
+      ja: [
+        /^(?:ステップ|手順|サブタスク)を?完了(?:して)?$/,
+        /^(?:ステップ|手順|サブタスク)\s*(.+?)を?完了(?:して)?$/,
+      ]
+    },
+    verbs: {
+      en: ['complete', 'finish', 'check off', 'tick off', 'done with'],
+      es: ['completa', 'completar', 'termina', 'terminar', 'marca'],
+      fr: ['termine', 'terminer', 'coche', 'cocher', 'complète', 'compléter'],
+      de: ['erledige', 'hake'],
+      pt: ['complete', 'conclua', 'conclui', 'termine', 'marque']
+    },
+    slots: ['step'],
+    usage: 'Complete step [step]',
+    help: 'Check off a step in whichever task has it',
+    examples: ['Tick off step buy paint'],
+    handler: completeStep
+  },
+  {
+    id: 'complete',
+    action: 'complete',
+    category: 'complete',
+    patterns: {
+      en: [
+        /^done with (.+)$/,
+        /^complete (.+)$/,
+        /^done (.+)$/,
+        /^finish (.+)$/,
+        /^mark (.+?) (?:as )?(?:done|complete|completed|finished)$/,
+      ],
+      es: [
+        /^(?:completar|completa|terminar|termina|finalizar|finaliza|hecho|hecha) (?:la )?(.+)$/,
+        /^(?:marcar|marca) (.+) como (?:hecha|hecho|completada|completado|terminada|terminado)$/,
+      ],
+      fr: [
+        /^(?:terminer|termine|compléter|complète|finir|finis|fini) (?:la )?(.+)$/,
+        /^(?:marquer|marque) (.+) comme (?:faite|fait|terminée|terminé)$/,
+      ],
+      de: [
+        /^(?:erledige|schließe) (.+?)(?: ab)?$/,
+        /^(?:markiere) (.+) als erledigt$/,
+        /^hake (.+) ab$/,
+      ],
+      pt: [
+        /^(?:completar|completa|complete|concluir|conclui|conclua|terminar|termina|termine|feito) (?:a )?(.+)$/,
+        /^(?:marcar|marca|marque) (.+) como (?:feita|feito|concluída|concluído)$/,
+      ],
+      ja: [
+        /^(.+?)を?(?:完了|終了|済み)(?:に)?(?:して(?:ください)?|する)?$/,
+        /^(.+?)が?(?:終わった|できた)$/,
+      ]
+    },
+    verbs: {
+      en: ['complete', 'done', 'finish', 'mark'],
+      es: ['completar', 'completa', 'terminar', 'termina', 'finalizar', 'finaliza', 'hecho', 'hecha', 'marcar', 'marca'],
+      fr: ['terminer', 'termine', 'compléter', 'complète', 'finir', 'finis', 'fini', 'marquer', 'marque'],
+      de: ['erledige', 'schließe', 'markiere', 'hake'],
+      pt: ['completar', 'completa', 'complete', 'concluir', 'conclui', 'conclua', 'terminar', 'termina', 'termine', 'feito', 'marcar', 'marca', 'marque']
+    },
+    slots: ['target'],
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:complete|done|finish|mark done|mark as done|complete a task)$/],
+          es: [/^(?:completar|completa|terminar|termina|finalizar|finaliza)$/],
+          fr: [/^(?:terminer|termine|compléter|complète|finir)$/],
+          de: [/^(?:erledige|erledigen|abhaken|abschließen)$/],
+          pt: [/^(?:completar|completa|complete|concluir|conclui|conclua|terminar)$/],
+          ja: [/^(?:完了|完了して|完了する)$/]
+        },
+        slots: []
+      }
+    ],
+    questions: { target: 'Which task should I complete?' },
+    usage: 'Complete [task]',
+    help: 'Mark a task as done by name, number or position',
+    examples: ['Complete task 1', 'Done buy groceries', 'Finish the last one'],
+    suggestions: [
+      { example: 'Complete task 1', description: 'Mark task as done', rank: 3, minTodos: 1 },
+      { example: 'Done buy groceries', description: 'Complete by task name', rank: 4, minTodos: 1 }
+    ],
+    handler: (command, context) => {
+      const todo = context.resolveTarget(command);
+      if (todo) {
+        context.completeTodo(todo.id);
+      }
+    }
+  },
+  {
+    // Checked before delete so "delete all" is not a task name
+    id: 'clear',
+    action: 'clear',
+    category: 'delete',
+    patterns: {
+      // Whole-phrase only, so "remove all-purpose flour" is a task name
+      en: [/^(?:clear|delete|remove) (?:all|everything)(?: (?:tasks|todos|of them|the tasks))?$/, /^clear (?:the )?list$/],
+      es: [/^(?:borrar|borra|eliminar|elimina) (?:todo|todas(?: las tareas)?)$/],
+      fr: [/^(?:tout (?:effacer|supprimer)|(?:efface|supprime|effacer|supprimer) tout(?:es les tâches)?)$/],
+      de: [/^(?:alles löschen|lösche alles|alle löschen|lösche alle(?: aufgaben)?)$/],
+      pt: [/^(?:apagar|apaga|limpar|limpa|excluir|remover) (?:tudo|todas(?: as tarefas)?)$/],
+      ja: [/^(?:全部|すべて|全て)(?:のタスク)?を?(?:削除|消して|消去|クリア)(?:して)?$/]
+    },
+    verbs: {
+      en: ['clear', 'delete', 'remove'],
+      es: ['borrar', 'borra', 'eliminar', 'elimina'],
+      fr: ['tout', 'efface', 'supprime', 'effacer', 'supprimer'],
+      de: ['alles', 'lösche', 'alle'],
+      pt: ['apagar', 'apaga', 'limpar', 'limpa', 'excluir', 'remover']
+    },
+    slots: [],
+    usage: 'Clear all',
+    help: 'Remove every task',
+    examples: ['Clear all', 'Delete all'],
+    suggestions: [
+      { example: 'Clear all', description: 'Remove all tasks', rank: 6, minTodos: 2 }
+    ],
+    confirm: (_command, context) => {
+      const count = context.todos.length;
+      if (count === 0) return undefined;
+      return `Clear all ${count} task${count === 1 ? '' : 's'}? Say yes to confirm.`;
+    },
+    handler: (_command, context) => {
+      context.clearAllTodos();
+    }
+  },
+  {
+    id: 'delete',
+    action: 'delete',
+    category: 'delete',
+    patterns: {
+      en: [
+        /^delete (.+)$/,
+        /^remove (.+)$/,
+        /^cancel (.+)$/,
+      ],
+      es: [/^(?:borrar|borra|eliminar|elimina|quitar|quita|cancelar|cancela) (?:la )?(.+)$/],
+      fr: [/^(?:supprimer|supprime|effacer|efface|enlever|enlève|retirer|retire|annuler|annule) (?:la )?(.+)$/],
+      de: [/^(?:lösche|entferne|streiche) (.+)$/],
+      pt: [/^(?:apagar|apaga|apague|excluir|exclui|exclua|remover|remove|remova|deletar|deleta|cancelar|cancela|cancele) (?:a )?(.+)$/],
+      ja: [/^(.+?)を?(?:削除|消去|消して|消す)(?:して(?:ください)?|する)?$/]
+    },
+    verbs: {
+      en: ['delete', 'remove', 'cancel'],
+      es: ['borrar', 'borra', 'eliminar', 'elimina', 'quitar', 'quita', 'cancelar', 'cancela'],
+      fr: ['supprimer', 'supprime', 'effacer', 'efface', 'enlever', 'enlève', 'retirer', 'retire', 'annuler', 'annule'],
+      de: ['lösche', 'entferne', 'streiche'],
+      pt: ['apagar', 'apaga', 'apague', 'excluir', 'exclui', 'exclua', 'remover', 'remove', 'remova', 'deletar', 'deleta', 'cancelar', 'cancela', 'cancele']
+    },
+    slots: ['target'],
+    // "Delete them" can remove a whole batch of tasks at once
+    confirm: (command, context) => {
+      const tasks = command.recent === 'all' ? context.getRecentTodos() : [];
+      if (tasks.length < 2) return undefined;
+      return `Delete ${tasks.length} tasks: ${joinNames(tasks.map(todo => todo.text))}? Say yes to confirm.`;
+    },
+    partial: [
+      {
+        patterns: {
+          en: [/^(?:delete|remove|delete a task|remove a task)$/],
+          es: [/^(?:borrar|borra|eliminar|elimina|quitar|quita)$/],
+          fr: [/^(?:supprimer|supprime|effacer|efface|enlever|enlève)$/],
+          de: [/^(?:lösche|löschen|entferne|entfernen)$/],
+          pt: [/^(?:apagar|apaga|apague|excluir|exclui|exclua|remover|remove|remova)$/],
+          ja: [/^(?:削除|削除して|削除する)$/]
+        },
+        slots: []
+      }
+    ],
+    questions: { target: 'Which task should I delete?' },
+    usage: 'Delete [task]',
+    help: 'Remove a task by name, number or position',
+    examples: ['Delete task 2', 'Remove call mom'],
+    suggestions: [
+      { example: 'Delete task 1', description: 'Remove a task', rank: 5, minTodos: 1 }
+    ],
+    handler: (command, context) => {
+      const todo = context.resolveTarget(command);
+      if (todo) {
+        context.deleteTodo(todo.id);
+      }
+    }
+  }
+];
+
+const joinNames = (names: string[]): string => {
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+const isDestructive = (command: VoiceCommand): boolean => {
+  return !command.confirmed && !!getCommandDefinition(command.action)?.confirm;
+};
+
+// How a destructive command is named when several are confirmed together
+const describeDestructive = (command: VoiceCommand): string => {
+  if (command.action === 'clear') return 'clear all tasks';
+  
+  const position = command.index !== undefined && (command.index < 0 ? 'the last task' : `task ${command.index + 1}`);
+  const reference = command.recent ? (command.recent === 'all' ? 'them' : 'it') : position || command.text;
+  return `delete ${reference ?? 'a task'}`;
+};
+
+/**
+ * The question to ask before the first of `commands` runs, with the commands
+ * to run after a yes. Several destructive commands in one breath, such as
+ * "delete task 1 and delete task 2", are confirmed together with one question.
+ */
+export const getConfirmation = (
+  commands: VoiceCommand[],
+  context: CommandContext
+): { prompt: string; commands: VoiceCommand[] } | undefined => {
+  const [command] = commands;
+  if (!command || !isDestructive(command)) return undefined;
+  
+  const destructive = commands.filter(isDestructive);
+  if (destructive.length > 1) {
+    const prompt = `${joinNames(destructive.map(describeDestructive))}? Say yes to confirm.`;
+    return {
+      prompt: prompt.charAt(0).toUpperCase() + prompt.slice(1),
+      commands: commands.map(queued => isDestructive(queued) ? { ...queued, confirmed: true } : queued)
+    };
+  }
+  
+  const prompt = getCommandDefinition(command.action)?.confirm?.(command, context);
+  return prompt ? { prompt, commands } : undefined;
+};
+
+// Help and discovery read better grouped by what the commands do than in matching order
+const CATEGORY_ORDER: CommandCategory[] = ['create', 'complete', 'manage', 'delete', 'view'];
+
+export const getCommandsByCategory = (): CommandDefinition[] => {
+  return [...COMMANDS].sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+    b.slots.length - a.slots.length
+  );
+};
+
+// Commands sharing an action, like the filters, share a handler that reads their values
+export const getCommandDefinition = (action: VoiceCommand['action']): CommandDefinition | undefined => {
+  return COMMANDS.find(command => command.action === action);
+};
+
+export const getCommandSuggestions = (): (CommandSuggestion & { category: CommandCategory })[] => {
+  return COMMANDS.flatMap(command =>
+    (command.suggestions ?? []).map(suggestion => ({ ...suggestion, category: command.category }))
+  );
+};
+
+export const localizePatterns = (patterns: LocalizedPatterns, language: string): RegExp[] => {
+  return patterns[language] ?? patterns.en;
+};
+
+// Whether text opens with one of the commands' verbs; Japanese puts the verb last, so any text may
+export const startsCommand = (text: string, language: string = 'en-US'): boolean => {
+  const grammarLanguage = getGrammarLanguage(language);
+  const verbs = COMMANDS.flatMap(definition => definition.verbs?.[grammarLanguage] ?? []);
+  return verbs.length === 0 || new RegExp(`^(?:${verbs.join('|')})(?:\\s|$)`).test(text);
+};
+
+export const getSlotQuestion = (command: VoiceCommand): string => {
+  const slot = command.missing?.[0];
+  const question = slot && getCommandDefinition(command.action)?.questions?.[slot];
+  return question ?? 'Sorry, could you say that again?';
+};
+
+// Examples for the help panel; compound utterances work with any combination of commands
+export const getHelpExamples = (): string[] => {
+  return [
+    ...getCommandsByCategory().flatMap(command => command.examples),
+    'Complete task 1 and delete task 3'
+  ];
+};
+
+const COMPLETION_LIMIT = 5;
+
+/**
+ * Suggestions for a typed command: open task names after a command that
+ * names a task, e.g. "complete gro" becomes "complete groceries", then the
+ * help examples that start with what was typed.
+ */
+export const getCommandCompletions = (input: string, todos: Todo[]): string[] => {
+  const typed = input.trimStart();
+  const lowered = typed.toLowerCase();
+  if (!lowered) return [];
+  
+  const taskNames = COMMANDS
+    .filter(command => command.slots[0] === 'target')
+    .map(command => command.usage.split('[')[0].toLowerCase())
+    .filter(stem => stem && lowered.startsWith(stem))
+    .flatMap(stem => {
+      const rest = lowered.slice(stem.length);
+      return todos
+        .filter(todo => !todo.completed && todo.text.toLowerCase().startsWith(rest) && todo.text.toLowerCase() !== rest)
+        .map(todo => typed.slice(0, stem.length) + todo.text);
+    });
+  const examples = getHelpExamples().filter(example =>
+    example.toLowerCase().startsWith(lowered) && example.toLowerCase() !== lowered
+  );
+  
+  return [...new Set([...taskNames, ...examples])].slice(0, COMPLETION_LIMIT);
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { extractDueDate, hasTimeOfDay } from './dates';
+import { getGrammar } from './grammars';
+import { getReminderTime } from './reminders';
+
+// Monday 10 March 2025, 10:00
+const now = new Date(2025, 2, 10, 10, 0);
+
+describe('extractDueDate', () => {
+  it('reads a time with am or pm', () => {
+    expect(extractDueDate('call mom at 5pm', now)?.date).toEqual(new Date(2025, 2, 10, 17, 0));
+    expect(extractDueDate('call mom at 7 a.m.', now)?.date).toEqual(new Date(2025, 2, 11, 7, 0));
+  });
+
+  it('does not read am or pm inside a word', () => {
+    expect(extractDueDate('buy 2 pmcs cables', now)).toBeUndefined();
+    expect(extractDueDate('book 4 ampersands', now)).toBeUndefined();
+  });
+
+  it('puts a day and a time together', () => {
+    expect(extractDueDate('pay rent tomorrow at 9:30am', now)?.date).toEqual(new Date(2025, 2, 11, 9, 30));
+  });
+
+  it('reads noon as 12:00', () => {
+    expect(extractDueDate('lunch at noon', now)?.date).toEqual(new Date(2025, 2, 10, 12, 0));
+  });
+
+  it('reads midnight as the start of the next day, with a time of day', () => {
+    const match = extractDueDate('lock the door at midnight', now);
+    expect(match?.date).toEqual(new Date(2025, 2, 11, 0, 0));
+    expect(hasTimeOfDay(match!.date)).toBe(true);
+  });
+
+  it('leaves a day without a time at the end of that day', () => {
+    const match = extractDueDate('water plants tomorrow', now);
+    expect(match?.date.getDate()).toBe(11);
+    expect(hasTimeOfDay(match!.date)).toBe(false);
+  });
+});
+
+describe('extractDueDate in other languages', () => {
+  const dueDate = (text: string, language: string) => extractDueDate(text, now, getGrammar(language).dates)?.date;
+
+  it('reads days and times in each command language', () => {
+    expect(dueDate('llamar a mamá mañana a las 6', 'es-ES')).toEqual(new Date(2025, 2, 11, 18, 0));
+    expect(dueDate('appeler maman demain à 18h30', 'fr-FR')).toEqual(new Date(2025, 2, 11, 18, 30));
+    expect(dueDate('mama anrufen übermorgen um 9 uhr', 'de-DE')).toEqual(new Date(2025, 2, 12, 9, 0));
+    expect(dueDate('ligar para a mãe às 8 da noite', 'pt-BR')).toEqual(new Date(2025, 2, 10, 20, 0));
+    expect(dueDate('明日の午後6時に母に電話', 'ja-JP')).toEqual(new Date(2025, 2, 11, 18, 0));
+  });
+
+  it('reads weekdays and dates', () => {
+    expect(dueDate('dentista el próximo lunes', 'es-ES')?.getDate()).toBe(17);
+    expect(dueDate('payer le loyer le 3 avril', 'fr-FR')?.getMonth()).toBe(3);
+    expect(dueDate('来週の月曜日に歯医者', 'ja-JP')?.getDate()).toBe(17);
+  });
+
+  it('tells "this morning" from "tomorrow" in Spanish', () => {
+    expect(dueDate('correr mañana por la mañana', 'es-ES')).toEqual(new Date(2025, 2, 11, 9, 0));
+    expect(dueDate('reunión a las 9 de la mañana', 'es-ES')).toEqual(new Date(2025, 2, 11, 9, 0));
+  });
+
+  it('does not read a duration as a clock time', () => {
+    expect(dueDate('2時間勉強', 'ja-JP')).toBeUndefined();
+  });
+});
+
+describe('getReminderTime', () => {
+  it('keeps a time that was given', () => {
+    const date = new Date(2025, 2, 11, 0, 0);
+    expect(getReminderTime(date, now)).toEqual(date);
+  });
+
+  it('uses the morning for a later day without a time', () => {
+    const date = extractDueDate('tomorrow', now)!.date;
+    expect(getReminderTime(date, now)).toEqual(new Date(2025, 2, 11, 9, 0));
+  });
+
+  it('uses an hour from now when the morning of today has passed', () => {
+    const date = extractDueDate('today', now)!.date;
+    expect(getReminderTime(date, now)).toEqual(new Date(2025, 2, 10, 11, 0));
+  });
+});
@@ -0,0 +1,326 @@
+import {
+  addDays,
+  addMinutes,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  isBefore,
+  isSameDay,
+  isSameWeek,
+  nextDay,
+  setHours,
+  setMinutes,
+  startOfMinute,
+  Day
+} from 'date-fns';
+import { DueWindow } from '../types';
+
+// Natural-language due date extraction for voice commands
+
+export interface DueDateMatch {
+  date: Date;
+  phrases: string[];
+}
+
+// The date and time phrases of one command language. Patterns use named groups, so each
+// language can say the words in its own order; captured words are looked up in the lists.
+export interface DateGrammar {
+  // "in 2 hours": <amount> and <unit>
+  relativeOffset: RegExp;
+  numbers: Record<string, number>;
+  units: Record<string, 'minute' | 'hour' | 'day' | 'week'>;
+  // "at 5pm" or "at 17:30": <hour>, optional <minutes> and <meridiem>, tried in order
+  clockTimes: RegExp[];
+  // Meridiem words for the afternoon, e.g. "pm"
+  afternoon: RegExp;
+  // "at noon" and "tonight": <time>, looked up in times; 24 is midnight
+  namedTime: RegExp;
+  dayPart: RegExp;
+  times: Record<string, number>;
+  // "tomorrow": <day>, looked up in days as days from today
+  relativeDay: RegExp;
+  days: Record<string, number>;
+  // "next friday": <weekday> from weekdays, starting on Sunday; nextWeekday skips today
+  weekday: RegExp;
+  nextWeekday: RegExp;
+  weekdays: string[];
+  // "march 3": <month> from months and <day>
+  monthDays: RegExp[];
+  months: string[];
+  nextWeek: RegExp;
+  nextMonth: RegExp;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const SMALL_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty five': 45, 'half an': 0.5
+};
+
+const NUMBER_WORD = `\\d+|${Object.keys(SMALL_NUMBERS).join('|')}`;
+
+export const ENGLISH_DATES: DateGrammar = {
+  relativeOffset: new RegExp(`\\b(?:due |by )?in (?<amount>${NUMBER_WORD}) (?<unit>minute|hour|day|week)s?\\b`),
+  numbers: SMALL_NUMBERS,
+  units: { minute: 'minute', hour: 'hour', day: 'day', week: 'week' },
+  clockTimes: [
+    /\b(?:(?:due )?(?:at|by) )?(?<hour>\d{1,2})(?::(?<minutes>\d{2}))?\s?(?<meridiem>am\b|pm\b|a\.m\.?(?=\s|$|[,.!?])|p\.m\.?(?=\s|$|[,.!?]))/,
+    /\b(?:due )?(?:at|by) (?<hour>\d{1,2})(?::(?<minutes>\d{2}))?\b/
+  ],
+  afternoon: /^p/,
+  namedTime: /\b(?:(?:at|by) )?(?<time>noon|midday|midnight)\b/,
+  dayPart: /\b(?:this )?(?<time>morning|afternoon|evening|tonight)\b/,
+  times: { noon: 12, midday: 12, midnight: 24, morning: 9, afternoon: 15, evening: 18, tonight: 20 },
+  relativeDay: /\b(?:due |by |on )?(?<day>today|tomorrow|the day after tomorrow|day after tomorrow)\b/,
+  days: { today: 0, tomorrow: 1, 'the day after tomorrow': 2, 'day after tomorrow': 2 },
+  weekday: new RegExp(`\\b(?:due |by |on )?(?:(?:this|next) )?(?<weekday>${WEEKDAYS.join('|')})\\b`),
+  nextWeekday: /\bnext\b/,
+  weekdays: WEEKDAYS,
+  monthDays: [
+    new RegExp(`\\b(?:due |by |on )?(?:the )?(?<month>${MONTHS.join('|')}) (?<day>\\d{1,2})(?:st|nd|rd|th)?\\b`),
+    new RegExp(`\\b(?:due |by |on )?(?:the )?(?<day>\\d{1,2})(?:st|nd|rd|th)? of (?<month>${MONTHS.join('|')})\\b`)
+  ],
+  months: MONTHS,
+  nextWeek: /\b(?:due |by )?next week\b/,
+  nextMonth: /\b(?:due |by )?next month\b/
+};
+
+const DUE_WINDOW_PATTERN = /\b(?:due )?(overdue|late|today|tonight|tomorrow|this week)\b/;
+
+const DUE_WINDOWS: Record<string, DueWindow> = {
+  overdue: 'overdue',
+  late: 'overdue',
+  today: 'today',
+  tonight: 'today',
+  tomorrow: 'tomorrow',
+  'this week': 'week'
+};
+
+const toNumber = (word: string, dates: DateGrammar): number => {
+  const parsed = parseInt(word, 10);
+  return isNaN(parsed) ? dates.numbers[word] : parsed;
+};
+
+const to24Hour = (hour: number, dates: DateGrammar, meridiem?: string): number => {
+  // Without am/pm, small hours like "at 5" almost always mean the afternoon
+  if (!meridiem) return hour < 8 ? hour + 12 : hour;
+  const isPm = dates.afternoon.test(meridiem);
+  if (hour === 12) return isPm ? 12 : 0;
+  return isPm ? hour + 12 : hour;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const withTime = (date: Date, hours: number, minutes: number = 0): Date => {
+  return startOfMinute(setMinutes(setHours(date, hours), minutes));
+};
+
+const matchFirst = (text: string, patterns: RegExp[]): RegExpMatchArray | undefined => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const matchRelativeOffset = (text: string, now: Date, dates: DateGrammar): DueDateMatch | undefined => {
+  const match = text.match(dates.relativeOffset);
+  if (!match?.groups) return undefined;
+
+  const amount = toNumber(match.groups.amount, dates);
+  const unit = dates.units[match.groups.unit];
+  let date: Date;
+
+  switch (unit) {
+    case 'minute':
+      date = addMinutes(now, amount);
+      break;
+    case 'hour':
+      date = addMinutes(now, Math.round(amount * 60));
+      break;
+    case 'day':
+      date = endOfDay(addDays(now, Math.ceil(amount)));
+      break;
+    default:
+      date = endOfDay(addWeeks(now, Math.ceil(amount)));
+  }
+
+  return { date, phrases: [match[0]] };
+};
+
+const matchDay = (text: string, now: Date, dates: DateGrammar): { date: Date; phrase: string } | undefined => {
+  const relativeDay = text.match(dates.relativeDay);
+  if (relativeDay?.groups) {
+    return { date: addDays(now, dates.days[relativeDay.groups.day]), phrase: relativeDay[0] };
+  }
+
+  const weekday = text.match(dates.weekday);
+  if (weekday?.groups) {
+    const target = dates.weekdays.indexOf(weekday.groups.weekday) as Day;
+    const date = target === now.getDay() && !dates.nextWeekday.test(weekday[0]) ? now : nextDay(now, target);
+    return { date, phrase: weekday[0] };
+  }
+
+  const monthDay = matchFirst(text, dates.monthDays);
+  if (monthDay?.groups) {
+    const month = dates.months.indexOf(monthDay.groups.month);
+    const day = parseInt(monthDay.groups.day, 10);
+    let date = new Date(now.getFullYear(), month, day);
+    if (differenceInCalendarDays(date, now) < 0) {
+      date = new Date(now.getFullYear() + 1, month, day);
+    }
+    return { date, phrase: monthDay[0] };
+  }
+
+  const nextWeek = text.match(dates.nextWeek);
+  if (nextWeek) {
+    return { date: addWeeks(now, 1), phrase: nextWeek[0] };
+  }
+
+  const nextMonth = text.match(dates.nextMonth);
+  if (nextMonth) {
+    return { date: new Date(now.getFullYear(), now.getMonth() + 1, 1), phrase: nextMonth[0] };
+  }
+
+  return undefined;
+};
+
+// Midnight is the start of the next day, since 23:59 already stands for "no time given"
+const matchTime = (text: string, dates: DateGrammar): { hours: number; minutes: number; days?: number; phrase: string } | undefined => {
+  const time = matchFirst(text, dates.clockTimes);
+  if (time?.groups) {
+    const hour = parseInt(time.groups.hour, 10);
+    const minutes = parseInt(time.groups.minutes || '0', 10);
+    const meridiem = time.groups.meridiem?.replace(/\./g, '').trim();
+    if (hour > 23 || minutes > 59 || (meridiem && (hour === 0 || hour > 12))) return undefined;
+
+    return { hours: to24Hour(hour, dates, meridiem), minutes, phrase: time[0] };
+  }
+
+  const namedTime = text.match(dates.namedTime) ?? text.match(dates.dayPart);
+  if (namedTime?.groups) {
+    const hours = dates.times[namedTime.groups.time];
+    return hours === 24
+      ? { hours: 0, minutes: 0, days: 1, phrase: namedTime[0] }
+      : { hours, minutes: 0, phrase: namedTime[0] };
+  }
+
+  return undefined;
+};
+
+/**
+ * Finds a due date phrase such as "tomorrow at 5pm", "next friday" or
+ * "in two hours". Dates without a time of day resolve to the end of that day.
+ * `dates` holds the words of the command language and defaults to English.
+ */
+export const extractDueDate = (
+  text: string,
+  now: Date = new Date(),
+  dates: DateGrammar = ENGLISH_DATES
+): DueDateMatch | undefined => {
+  const lowerText = text.toLowerCase();
+
+  const relative = matchRelativeOffset(lowerText, now, dates);
+  if (relative) return relative;
+
+  const day = matchDay(lowerText, now, dates);
+  const time = matchTime(day ? lowerText.replace(day.phrase, ' ') : lowerText, dates);
+
+  if (!day && !time) return undefined;
+
+  const phrases = [day?.phrase, time?.phrase].filter((phrase): phrase is string => !!phrase);
+
+  // A time on its own ("at 5pm", "tonight") is for today
+  let date = day?.date ?? now;
+  if (!time) {
+    return { date: endOfDay(date), phrases };
+  }
+
+  date = withTime(addDays(date, time.days ?? 0), time.hours, time.minutes);
+  // A bare time that has already passed today means tomorrow
+  if (!day && isBefore(date, now)) {
+    date = addDays(date, 1);
+  }
+
+  return { date, phrases };
+};
+
+export const stripDueDate = (text: string, phrases: string[] = []): string => {
+  return phrases.reduce(
+    (result, phrase) => result.replace(new RegExp(escapeRegExp(phrase.trim()), 'i'), ' '),
+    text
+  );
+};
+
+export const hasTimeOfDay = (date: Date): boolean => {
+  return !(date.getHours() === 23 && date.getMinutes() === 59);
+};
+
+export const isOverdue = (dueDate: Date, now: Date = new Date()): boolean => {
+  return isBefore(dueDate, now);
+};
+
+/**
+ * Short relative label for a due date, e.g. "Today 5:00 PM", "Tomorrow",
+ * "Fri 9:00 AM", "Mar 3" or "2 days overdue".
+ */
+export const formatDueLabel = (dueDate: Date, now: Date = new Date()): string => {
+  const days = differenceInCalendarDays(dueDate, now);
+  const time = hasTimeOfDay(dueDate) ? ` ${format(dueDate, 'h:mm a')}` : '';
+
+  if (days < 0) {
+    return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  }
+  if (days === 0) {
+    if (isOverdue(dueDate, now)) return `Overdue${time}`;
+    const minutesLeft = Math.round((dueDate.getTime() - now.getTime()) / 60000);
+    if (hasTimeOfDay(dueDate) && minutesLeft < 60) return `In ${minutesLeft} min`;
+    return `Today${time}`;
+  }
+  if (days === 1) return `Tomorrow${time}`;
+  if (days < 7) return `${format(dueDate, 'EEE')}${time}`;
+  return `${format(dueDate, 'MMM d')}${time}`;
+};
+
+/**
+ * Spoken form of a due date for confirmations, e.g. "tomorrow at 5:00 PM".
+ */
+export const describeDueDate = (dueDate: Date, now: Date = new Date()): string => {
+  const days = differenceInCalendarDays(dueDate, now);
+  const time = hasTimeOfDay(dueDate) ? ` at ${format(dueDate, 'h:mm a')}` : '';
+
+  if (days === 0) return `today${time}`;
+  if (days === 1) return `tomorrow${time}`;
+  if (days > 1 && days < 7) return `${format(dueDate, 'EEEE')}${time}`;
+  return `${format(dueDate, 'MMMM do')}${time}`;
+};
+
+/**
+ * Finds the time window of a list query such as "what's due today" or
+ * "read my overdue tasks".
+ */
+export const extractDueWindow = (text: string): { window: DueWindow; phrase: string } | undefined => {
+  const match = text.toLowerCase().match(DUE_WINDOW_PATTERN);
+  return match ? { window: DUE_WINDOWS[match[1]], phrase: match[0] } : undefined;
+};
+
+export const isDueWithin = (dueDate: Date, window: DueWindow, now: Date = new Date()): boolean => {
+  switch (window) {
+    case 'overdue':
+      return isOverdue(dueDate, now);
+    case 'today':
+      return isSameDay(dueDate, now);
+    case 'tomorrow':
+      return isSameDay(dueDate, addDays(now, 1));
+    default:
+      return isSameWeek(dueDate, now);
+  }
+};
@@ -0,0 +1,147 @@
+import { Todo, TodoFilter, TaskQuery, DueWindow, ListView, SortMode } from '../types';
+import { isDueWithin } from './dates';
+import { searchTodos } from './search';
+
+export const filterTodos = (todos: Todo[], filter: TodoFilter): Todo[] => {
+  return todos.filter(todo => {
+    switch (filter) {
+      case 'active':
+        return !todo.completed;
+      case 'completed':
+        return todo.completed;
+      default:
+        return true;
+    }
+  });
+};
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  status: 'all',
+  sort: 'manual'
+};
+
+export const SORT_MODES: SortMode[] = ['manual', 'newest', 'oldest', 'priority', 'due', 'alphabetical'];
+
+export const SORT_LABELS: Record<SortMode, string> = {
+  manual: 'My order',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  priority: 'Priority',
+  due: 'Due date',
+  alphabetical: 'A–Z'
+};
+
+// Spoken after "Sorted" and shown above the list
+export const SORT_DESCRIPTIONS: Record<SortMode, string> = {
+  manual: 'in your own order',
+  newest: 'newest first',
+  oldest: 'oldest first',
+  priority: 'by priority, high first',
+  due: 'by due date, soonest first and undated last',
+  alphabetical: 'from A to Z'
+};
+
+const PRIORITY_RANK: Record<Todo['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+const compareTodos: Record<SortMode, (a: Todo, b: Todo) => number> = {
+  manual: () => 0,
+  newest: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  oldest: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  priority: (a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority],
+  // Tasks without a due date go last
+  due: (a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity),
+  alphabetical: (a, b) => a.text.localeCompare(b.text, undefined, { sensitivity: 'base' })
+};
+
+export const sortTodos = (todos: Todo[], sort: SortMode): Todo[] => {
+  return [...todos].sort(compareTodos[sort]);
+};
+
+/**
+ * The list with one task taken out and put back just before or after
+ * another; this is the saved order the 'manual' sort shows.
+ */
+export const moveTodoNextTo = (todos: Todo[], id: string, targetId: string, side: 'before' | 'after'): Todo[] => {
+  const moved = todos.find(todo => todo.id === id);
+  const rest = todos.filter(todo => todo.id !== id);
+  const targetIndex = rest.findIndex(todo => todo.id === targetId);
+  if (!moved || targetIndex < 0) return todos;
+  
+  const index = side === 'before' ? targetIndex : targetIndex + 1;
+  return [...rest.slice(0, index), moved, ...rest.slice(index)];
+};
+
+export const queryTodos = (todos: Todo[], query: TaskQuery, now: Date = new Date()): Todo[] => {
+  return filterTodos(todos, query.status ?? 'all').filter(todo =>
+    (!query.priority || todo.priority === query.priority) &&
+    (!query.category || todo.category?.toLowerCase() === query.category.toLowerCase()) &&
+    (!query.due || (!!todo.dueDate && isDueWithin(todo.dueDate, query.due, now)))
+  );
+};
+
+// The tasks as the list shows them; spoken positions such as "task 2" count in this order
+export const getVisibleTodos = (todos: Todo[], view: ListView): Todo[] => {
+  return sortTodos(searchTodos(queryTodos(todos, view), view.search), view.sort);
+};
+
+export const hasActiveFilters = (view: ListView): boolean => {
+  return view.status !== 'all' || !!view.priority || !!view.category;
+};
+
+const PRIORITIES: Todo['priority'][] = ['high', 'medium', 'low'];
+
+// The view as URL parameters, e.g. "?show=active&priority=high&category=work&q=dentist"; defaults are left out
+export const serializeListView = (view: ListView): string => {
+  const params = new URLSearchParams();
+  if (view.status !== DEFAULT_LIST_VIEW.status) params.set('show', view.status);
+  if (view.priority) params.set('priority', view.priority);
+  if (view.category) params.set('category', view.category);
+  if (view.sort !== DEFAULT_LIST_VIEW.sort) params.set('sort', view.sort);
+  if (view.search?.trim()) params.set('q', view.search);
+  
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Unknown values fall back to the defaults, so a hand-edited URL cannot break the list
+export const parseListView = (search: string): ListView => {
+  const params = new URLSearchParams(search);
+  const status = params.get('show') as TodoFilter | null;
+  const priority = params.get('priority') as Todo['priority'] | null;
+  const sort = params.get('sort') as SortMode | null;
+  
+  return {
+    status: status && ['all', 'active', 'completed'].includes(status) ? status : DEFAULT_LIST_VIEW.status,
+    priority: priority && PRIORITIES.includes(priority) ? priority : undefined,
+    category: params.get('category') || undefined,
+    sort: sort && SORT_MODES.includes(sort) ? sort : DEFAULT_LIST_VIEW.sort,
+    search: params.get('q') || undefined
+  };
+};
+
+const STATUS_WORDS: Record<TodoFilter, string> = {
+  all: '',
+  active: 'open',
+  completed: 'completed'
+};
+
+const DUE_WORDS: Record<DueWindow, string> = {
+  overdue: '',
+  today: 'due today',
+  tomorrow: 'due tomorrow',
+  week: 'due this week'
+};
+
+/**
+ * Spoken name for the tasks a query matches, e.g. "open high priority work
+ * tasks due today" or "overdue task".
+ */
+export const describeTaskQuery = (query: TaskQuery, count: number): string => {
+  return [
+    query.due === 'overdue' ? 'overdue' : STATUS_WORDS[query.status ?? 'all'],
+    query.priority && `${query.priority} priority`,
+    query.category,
+    count === 1 ? 'task' : 'tasks',
+    query.due && DUE_WORDS[query.due]
+  ].filter(Boolean).join(' ');
+};
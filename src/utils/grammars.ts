@@ -0,0 +1,450 @@
+import { Todo, TodoFilter } from '../types';
+import { DateGrammar, ENGLISH_DATES } from './dates';
+
+// Per-locale words shared by all voice commands, selected from VoiceSettings.language.
+// The command patterns themselves live in the registry in commands.ts.
+
+export interface CommandGrammar {
+  // Words before a task number, e.g. "task" in "task 2"
+  taskPrefix: RegExp;
+  // Group 1 is the number or position in "the second task", "number two" or "the last one"
+  taskReference: RegExp;
+  // Local number and position words; negative values count from the end of the list
+  numberWords: Record<string, number>;
+  // "it"/"that" and "them"/"those", meaning the tasks last added, changed or read out
+  pronoun: RegExp;
+  pluralPronoun: RegExp;
+  // Words people start with before the command itself, e.g. "actually" in "actually delete that"
+  filler: RegExp;
+  priority: Record<Todo['priority'], RegExp>;
+  // Bare level words, e.g. "high" in "set the priority of groceries to high"
+  priorityLevel: Record<Todo['priority'], RegExp>;
+  // Group 1 is the category name
+  category: RegExp[];
+  // The word for a category itself, e.g. "category" in "move dentist to the health category"
+  categoryWord: RegExp;
+  // List queries: status words, and words that are not filters, e.g. "my" and "tasks" in "read my work tasks"
+  status: Record<TodoFilter, RegExp>;
+  queryFiller: RegExp;
+  // Compound utterances: a separator only splits when a command verb follows.
+  // clauseSeparator must have exactly one capture group around the separator.
+  clauseSeparator: RegExp;
+  listSeparator: RegExp;
+  // Replies during follow-ups
+  finish: RegExp;
+  confirm: RegExp;
+  cancel: RegExp;
+  // Due dates and times, e.g. "tomorrow at 5pm"
+  dates: DateGrammar;
+}
+
+// Whole-word alternatives that also work for accented letters, which \b does not
+const words = (alternatives: string): RegExp => {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'u');
+};
+
+const en: CommandGrammar = {
+  taskPrefix: /^task /,
+  taskReference: /^(?:the\s+)?(?:(?:task|number|item)\s+)?(?:number\s+)?(\S+)(?:\s+(?:one|task|item))?$/,
+  numberWords: { top: 1, last: -1, bottom: -1 },
+  pronoun: /^(?:it|that|this|this one|that one|this task|that task|the same one|the same task|the last one|last one)$/,
+  pluralPronoun: /^(?:them|those|these|all of them|both|both of them|those tasks|these tasks)$/,
+  filler: /^(?:actually|oh|wait|um|uh|hmm|no wait|sorry)[,\s]+/,
+  priority: {
+    high: /\b(?:urgent|high priority|important)\b/,
+    medium: /\b(?:medium priority|normal)\b/,
+    low: /\blow priority\b/
+  },
+  priorityLevel: {
+    high: words('high|top'),
+    medium: words('medium|normal'),
+    low: words('low')
+  },
+  category: [
+    /\b(?:in|for|under) (\w+) category\b/,
+    /\bcategorize as (\w+)\b/,
+    /\btag (\w+)\b/,
+  ],
+  categoryWord: words('category|categories|tag|tags|label'),
+  status: {
+    active: words('open|active|pending|remaining|left|unfinished|outstanding'),
+    completed: words('completed|complete|done|finished'),
+    all: words('all|every|everything')
+  },
+  queryFiller: words('my|the|me|of|on|for|in|i|have|to do|to-dos?|to dos|todos?|tasks?|list|things|items'),
+  clauseSeparator: /(\s*,\s*(?:and\s+)?(?:then\s+)?|\s+and then\s+|\s+and\s+|\s+then\s+|\s+also\s+)/,
+  listSeparator: /\s*,\s*(?:and\s+)?|\s+and\s+/,
+  finish: /^(?:done|all done|i'm done|i am done|that's all|that is all|that's it|finished|stop)$/,
+  confirm: /^(?:yes|yeah|yep|yup|sure|confirm|do it|go ahead|yes please|okay|ok)$/,
+  cancel: /^(?:cancel|never mind|nevermind|neither|none|none of them|no|nope|stop)$/,
+  dates: ENGLISH_DATES
+};
+
+const es: CommandGrammar = {
+  taskPrefix: /^tarea (?:número )?/,
+  taskReference: /^(?:la\s+)?(?:(?:tarea|número)\s+)?(?:número\s+)?(\S+)(?:\s+tarea)?$/,
+  numberWords: {
+    uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10,
+    primera: 1, primero: 1, segunda: 2, segundo: 2, tercera: 3, tercero: 3, cuarta: 4, cuarto: 4,
+    quinta: 5, quinto: 5, sexta: 6, sexto: 6, séptima: 7, séptimo: 7, octava: 8, octavo: 8,
+    novena: 9, noveno: 9, décima: 10, décimo: 10, última: -1, último: -1
+  },
+  pronoun: /^(?:eso|esa|ese|esta|este|esto|esa tarea|esta tarea)$/,
+  pluralPronoun: /^(?:esas|estas|esos|estos|esas tareas|estas tareas|todas ellas|las dos)$/,
+  filler: /^(?:en realidad|mejor|oye|espera|eh)[,\s]+/,
+  priority: {
+    high: words('urgentes?|importantes?|prioridad alta|alta prioridad'),
+    medium: words('prioridad media|normal'),
+    low: words('prioridad baja|baja prioridad')
+  },
+  priorityLevel: {
+    high: words('alta'),
+    medium: words('media|normal'),
+    low: words('baja')
+  },
+  category: [
+    /en (?:la )?categoría (\S+)/,
+    /categoría (\S+)/,
+    /etiqueta (\S+)/,
+  ],
+  categoryWord: words('categoría|etiqueta'),
+  status: {
+    active: words('pendientes?|activas|abiertas'),
+    completed: words('completadas|hechas|terminadas'),
+    all: words('todas|todo')
+  },
+  queryFiller: words('mis|mi|las|los|la|el|de|del|en|para|tareas?|lista|cosas'),
+  clauseSeparator: /(\s*,\s*(?:y\s+)?(?:luego\s+)?|\s+y luego\s+|\s+y después\s+|\s+y\s+|\s+luego\s+|\s+también\s+)/,
+  listSeparator: /\s*,\s*(?:y\s+|e\s+)?|\s+y\s+|\s+e\s+/,
+  finish: /^(?:listo|lista|ya está|eso es todo|terminado|terminé|fin|ya)$/,
+  confirm: /^(?:sí|si|claro|confirmo|confirmar|adelante|vale|de acuerdo)$/,
+  cancel: /^(?:cancelar|cancela|olvídalo|ninguna|ninguno|no)$/,
+  dates: {
+    relativeOffset: words('(?:para )?(?:en|dentro de) (?<amount>\\d+|una?|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|quince|veinte|treinta|media) (?<unit>minuto|hora|día|semana)s?'),
+    numbers: { un: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, quince: 15, veinte: 20, treinta: 30, media: 0.5 },
+    units: { minuto: 'minute', hora: 'hour', día: 'day', semana: 'week' },
+    clockTimes: [
+      words('(?:para )?a las? (?<hour>\\d{1,2})(?::(?<minutes>\\d{2}))?(?:\\s?(?<meridiem>am|pm|a\\.m\\.|p\\.m\\.| de la mañana| de la tarde| de la noche))?')
+    ],
+    afternoon: /^p|tarde|noche/,
+    namedTime: words('(?:a )?(?:el |la )?(?<time>mediodía|medianoche)'),
+    dayPart: words('(?:esta|por la|en la) (?<time>mañana|tarde|noche)'),
+    times: { mediodía: 12, medianoche: 24, mañana: 9, tarde: 15, noche: 20 },
+    relativeDay: words('(?:para )?(?<day>hoy|pasado mañana|(?<!(?:esta|la) )mañana)'),
+    days: { hoy: 0, mañana: 1, 'pasado mañana': 2 },
+    weekday: words('(?:para )?(?:el )?(?:próximo )?(?<weekday>domingo|lunes|martes|miércoles|jueves|viernes|sábado)(?: que viene| próximo)?'),
+    nextWeekday: /próximo|que viene/,
+    weekdays: ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'],
+    monthDays: [
+      words('(?:para )?(?:el )?(?<day>\\d{1,2}) de (?<month>enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre)')
+    ],
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    nextWeek: words('(?:para )?(?:la semana que viene|la próxima semana)'),
+    nextMonth: words('(?:para )?(?:el mes que viene|el próximo mes)')
+  }
+};
+
+const fr: CommandGrammar = {
+  taskPrefix: /^tâche (?:numéro )?/,
+  taskReference: /^(?:la\s+|le\s+)?(?:(?:tâche|numéro)\s+)?(?:numéro\s+)?(\S+)(?:\s+tâche)?$/,
+  numberWords: {
+    un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9, dix: 10,
+    première: 1, premier: 1, deuxième: 2, seconde: 2, second: 2, troisième: 3, quatrième: 4,
+    cinquième: 5, sixième: 6, septième: 7, huitième: 8, neuvième: 9, dixième: 10,
+    dernière: -1, dernier: -1
+  },
+  pronoun: /^(?:ça|cela|celle-ci|celle-là|celui-ci|celui-là|cette tâche)$/,
+  pluralPronoun: /^(?:celles-ci|celles-là|ces tâches|les deux)$/,
+  filler: /^(?:en fait|euh|attends|finalement)[,\s]+/,
+  priority: {
+    high: words('urgente?s?|importante?s?|priorité haute|haute priorité'),
+    medium: words('priorité moyenne|normale?'),
+    low: words('priorité basse|basse priorité')
+  },
+  priorityLevel: {
+    high: words('haute|élevée'),
+    medium: words('moyenne|normale'),
+    low: words('basse')
+  },
+  category: [
+    /dans (?:la )?catégorie (\S+)/,
+    /catégorie (\S+)/,
+    /étiquette (\S+)/,
+  ],
+  categoryWord: words('catégorie|étiquette'),
+  status: {
+    active: words('en cours|actives|à faire|restantes'),
+    completed: words('terminées|faites|finies'),
+    all: words('toutes|tout')
+  },
+  queryFiller: words('mes|ma|mon|les|la|le|de|des|du|dans|pour|sur|tâches?|liste|choses'),
+  clauseSeparator: /(\s*,\s*(?:et\s+)?(?:puis\s+)?|\s+et puis\s+|\s+et ensuite\s+|\s+et\s+|\s+puis\s+|\s+ensuite\s+)/,
+  listSeparator: /\s*,\s*(?:et\s+)?|\s+et\s+/,
+  finish: /^(?:c'est tout|terminé|fini|fin|c'est bon)$/,
+  confirm: /^(?:oui|ouais|confirme|confirmer|vas-y|d'accord)$/,
+  cancel: /^(?:annuler|annule|laisse tomber|aucune|aucun|non)$/,
+  dates: {
+    relativeOffset: words('(?:pour )?dans (?<amount>\\d+|une?|deux|trois|quatre|cinq|six|sept|huit|neuf|dix|quinze|vingt|trente) (?<unit>minute|heure|jour|semaine)s?'),
+    numbers: { un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9, dix: 10, quinze: 15, vingt: 20, trente: 30 },
+    units: { minute: 'minute', heure: 'hour', jour: 'day', semaine: 'week' },
+    clockTimes: [
+      words("(?:pour |vers )?à (?<hour>\\d{1,2})(?: ?(?:h|heures?|:) ?(?<minutes>\\d{2})?)?(?: (?<meridiem>du matin|de l'après-midi|du soir))?")
+    ],
+    afternoon: /après-midi|soir/,
+    namedTime: words('(?:à |vers )?(?<time>midi|minuit)'),
+    dayPart: words('(?:ce |cet |cette )?(?<time>matin|après-midi|soir)'),
+    times: { midi: 12, minuit: 24, matin: 9, 'après-midi': 15, soir: 18 },
+    relativeDay: words("(?:pour )?(?<day>aujourd'hui|après-demain|demain)"),
+    days: { "aujourd'hui": 0, demain: 1, 'après-demain': 2 },
+    weekday: words('(?:pour |le |ce )?(?<weekday>dimanche|lundi|mardi|mercredi|jeudi|vendredi|samedi)(?: prochain)?'),
+    nextWeekday: /prochain/,
+    weekdays: ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'],
+    monthDays: [
+      words('(?:pour )?(?:le )?(?<day>\\d{1,2})(?:er)? (?<month>janvier|février|mars|avril|mai|juin|juillet|août|septembre|octobre|novembre|décembre)')
+    ],
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    nextWeek: words('(?:pour )?la semaine prochaine'),
+    nextMonth: words('(?:pour )?le mois prochain')
+  }
+};
+
+const de: CommandGrammar = {
+  taskPrefix: /^(?:die )?aufgabe (?:nummer )?/,
+  taskReference: /^(?:die\s+)?(?:(?:aufgabe|nummer)\s+)?(?:nummer\s+)?(\S+?)\.?(?:\s+aufgabe)?$/,
+  numberWords: {
+    eins: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10,
+    erste: 1, ersten: 1, zweite: 2, zweiten: 2, dritte: 3, dritten: 3, vierte: 4, vierten: 4,
+    fünfte: 5, fünften: 5, sechste: 6, sechsten: 6, siebte: 7, siebten: 7, achte: 8, achten: 8,
+    neunte: 9, neunten: 9, zehnte: 10, zehnten: 10, oberste: 1, obersten: 1,
+    letzte: -1, letzten: -1, unterste: -1, untersten: -1
+  },
+  pronoun: /^(?:es|das|sie|diese|diese aufgabe|die aufgabe)$/,
+  pluralPronoun: /^(?:sie alle|diese aufgaben|beide)$/,
+  filler: /^(?:eigentlich|äh|ähm|warte|doch)[,\s]+/,
+  priority: {
+    high: words('dringend|wichtig|hohe priorität'),
+    medium: words('mittlere priorität|normal'),
+    low: words('niedrige priorität')
+  },
+  priorityLevel: {
+    high: words('hoch|hohe'),
+    medium: words('mittel|mittlere|normal'),
+    low: words('niedrig|niedrige')
+  },
+  category: [
+    /in (?:der )?kategorie (\S+)/,
+    /kategorie (\S+)/,
+    /etikett (\S+)/,
+  ],
+  categoryWord: words('kategorie|etikett'),
+  status: {
+    active: words('offenen?|aktiven?|ausstehenden?'),
+    completed: words('erledigten?|fertigen?'),
+    all: words('alle|allen')
+  },
+  queryFiller: words('meine|meinen|meiner|mir|die|der|den|von|für|in|auf|aufgaben?|liste|dinge'),
+  clauseSeparator: /(\s*,\s*(?:und\s+)?(?:dann\s+)?|\s+und dann\s+|\s+und\s+|\s+dann\s+|\s+außerdem\s+)/,
+  listSeparator: /\s*,\s*(?:und\s+)?|\s+und\s+/,
+  finish: /^(?:fertig|das war's|das wars|das ist alles|ende)$/,
+  confirm: /^(?:ja|jawohl|bestätigen|bestätige|mach das|okay|ok)$/,
+  cancel: /^(?:abbrechen|vergiss es|keine|keins|nein)$/,
+  dates: {
+    relativeOffset: words('(?:bis )?in (?<amount>\\d+|einer halben|einer|einem|zwei|drei|vier|fünf|sechs|sieben|acht|neun|zehn|fünfzehn|zwanzig|dreißig) (?<unit>minute|stunde|tag|woche)(?:n|en)?'),
+    numbers: { 'einer halben': 0.5, einer: 1, einem: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10, fünfzehn: 15, zwanzig: 20, dreißig: 30 },
+    units: { minute: 'minute', stunde: 'hour', tag: 'day', woche: 'week' },
+    clockTimes: [
+      words('(?:bis )?um (?<hour>\\d{1,2})(?:(?::| uhr ?)(?<minutes>\\d{2})?)?(?: (?<meridiem>morgens|früh|nachmittags|abends))?')
+    ],
+    afternoon: /nachmittags|abends/,
+    namedTime: words('(?:um |bis )?(?<time>mittag|mitternacht)'),
+    dayPart: words('(?:heute |am )?(?<time>vormittag|nachmittag|abend)'),
+    times: { mittag: 12, mitternacht: 24, vormittag: 9, nachmittag: 15, abend: 18 },
+    relativeDay: words('(?:bis )?(?<day>heute|übermorgen|morgen)'),
+    days: { heute: 0, morgen: 1, übermorgen: 2 },
+    weekday: words('(?:bis |am )?(?:(?:diesen|nächsten|kommenden) )?(?<weekday>sonntag|montag|dienstag|mittwoch|donnerstag|freitag|samstag)'),
+    nextWeekday: /nächsten|kommenden/,
+    weekdays: ['sonntag', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag'],
+    monthDays: [
+      words('(?:bis |am )?(?:zum )?(?<day>\\d{1,2})\\.? (?<month>januar|februar|märz|april|mai|juni|juli|august|september|oktober|november|dezember)')
+    ],
+    months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+    nextWeek: words('(?:bis )?nächste woche'),
+    nextMonth: words('(?:bis )?nächsten monat')
+  }
+};
+
+const pt: CommandGrammar = {
+  taskPrefix: /^tarefa (?:número )?/,
+  taskReference: /^(?:a\s+|o\s+)?(?:(?:tarefa|número)\s+)?(?:número\s+)?(\S+)(?:\s+tarefa)?$/,
+  numberWords: {
+    um: 1, uma: 1, dois: 2, duas: 2, três: 3, quatro: 4, cinco: 5, seis: 6, sete: 7, oito: 8, nove: 9, dez: 10,
+    primeira: 1, primeiro: 1, segunda: 2, segundo: 2, terceira: 3, terceiro: 3, quarta: 4, quarto: 4,
+    quinta: 5, quinto: 5, sexta: 6, sexto: 6, sétima: 7, sétimo: 7, oitava: 8, oitavo: 8,
+    nona: 9, nono: 9, décima: 10, décimo: 10, última: -1, último: -1
+  },
+  pronoun: /^(?:isso|isto|essa|esta|esse|este|essa tarefa|esta tarefa)$/,
+  pluralPronoun: /^(?:elas|essas|estas|esses|estes|essas tarefas|as duas)$/,
+  filler: /^(?:na verdade|espera|ah)[,\s]+/,
+  priority: {
+    high: words('urgentes?|importantes?|prioridade alta|alta prioridade'),
+    medium: words('prioridade média|normal'),
+    low: words('prioridade baixa|baixa prioridade')
+  },
+  priorityLevel: {
+    high: words('alta'),
+    medium: words('média|normal'),
+    low: words('baixa')
+  },
+  category: [
+    /na categoria (\S+)/,
+    /categoria (\S+)/,
+    /etiqueta (\S+)/,
+  ],
+  categoryWord: words('categoria|etiqueta'),
+  status: {
+    active: words('pendentes|ativas|abertas'),
+    completed: words('concluídas|feitas|terminadas'),
+    all: words('todas|tudo')
+  },
+  queryFiller: words('minhas|meus|minha|as|os|a|o|de|da|do|em|na|no|para|tarefas?|lista|coisas'),
+  clauseSeparator: /(\s*,\s*(?:e\s+)?(?:depois\s+)?|\s+e depois\s+|\s+e então\s+|\s+e\s+|\s+depois\s+|\s+também\s+)/,
+  listSeparator: /\s*,\s*(?:e\s+)?|\s+e\s+/,
+  finish: /^(?:pronto|terminei|é isso|só isso|fim|acabou)$/,
+  confirm: /^(?:sim|claro|confirmo|confirmar|pode|pode ser|ok)$/,
+  cancel: /^(?:cancelar|cancela|esquece|nenhuma|nenhum|não)$/,
+  dates: {
+    relativeOffset: words('(?:em|daqui a|dentro de) (?<amount>\\d+|uma?|dois|duas|três|quatro|cinco|seis|sete|oito|nove|dez|quinze|vinte|trinta|meia) (?<unit>minuto|hora|dia|semana)s?'),
+    numbers: { um: 1, uma: 1, dois: 2, duas: 2, três: 3, quatro: 4, cinco: 5, seis: 6, sete: 7, oito: 8, nove: 9, dez: 10, quinze: 15, vinte: 20, trinta: 30, meia: 0.5 },
+    units: { minuto: 'minute', hora: 'hour', dia: 'day', semana: 'week' },
+    clockTimes: [
+      words('(?:até )?(?:às|as) (?<hour>\\d{1,2})(?:(?::|h| horas?)(?<minutes>\\d{2})?)?(?: (?<meridiem>da manhã|da tarde|da noite))?')
+    ],
+    afternoon: /tarde|noite/,
+    namedTime: words('(?:ao |à )?(?<time>meio-dia|meia-noite)'),
+    dayPart: words('(?:esta|nesta|de|à|pela) (?<time>manhã|tarde|noite)'),
+    times: { 'meio-dia': 12, 'meia-noite': 24, manhã: 9, tarde: 15, noite: 20 },
+    relativeDay: words('(?:até )?(?<day>hoje|depois de amanhã|amanhã)'),
+    days: { hoje: 0, amanhã: 1, 'depois de amanhã': 2 },
+    weekday: words('(?:até |na |no )?(?:próxima |próximo )?(?<weekday>domingo|segunda|terça|quarta|quinta|sexta|sábado)(?:-feira| feira)?(?: que vem)?'),
+    nextWeekday: /próxim|que vem/,
+    weekdays: ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'],
+    monthDays: [
+      words('(?:até )?(?:no )?(?:dia )?(?<day>\\d{1,2}) de (?<month>janeiro|fevereiro|março|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)')
+    ],
+    months: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+    nextWeek: words('(?:até )?(?:a )?(?:semana que vem|próxima semana)'),
+    nextMonth: words('(?:até )?(?:o )?(?:mês que vem|próximo mês)')
+  }
+};
+
+// Japanese has no spaces between words
+const ja: CommandGrammar = {
+  taskPrefix: /^タスク\s*/,
+  taskReference: /^(?:タスク\s*)?(\S+?)(?:番目)?(?:の(?:タスク)?)?$/,
+  numberWords: {
+    一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+    最初: 1, 一番上: 1, 最後: -1, 一番下: -1
+  },
+  pronoun: /^(?:それ|これ|あれ|そのタスク|このタスク|さっきの(?:タスク)?)$/,
+  pluralPronoun: /^(?:それら|これら|それ全部)$/,
+  filler: /^(?:やっぱり|えっと|あの)[、\s]*/,
+  priority: {
+    high: /緊急|至急|重要|優先度高|高優先度/,
+    medium: /優先度中|普通/,
+    low: /優先度低|低優先度/
+  },
+  priorityLevel: {
+    high: /高/,
+    medium: /中|普通/,
+    low: /低/
+  },
+  category: [
+    /カテゴリー?(?:は|:|：)?\s*([^\s、。]+?)(?:で|に)?(?=[\s、。]|$)/,
+    /#(\S+)/,
+  ],
+  categoryWord: /カテゴリー?|タグ/,
+  status: {
+    active: /未完了|残り/,
+    completed: /(?<!未)完了(?:した)?/,
+    all: /全部|すべて|全て/
+  },
+  queryFiller: /の|を|は|タスク|やること|リスト/,
+  clauseSeparator: /(、そして|、それから|。)/,
+  listSeparator: /\s*[、,]\s*/,
+  finish: /^(?:終わり|おわり|以上|完了|終了)$/,
+  confirm: /^(?:はい|うん|ええ|確認|実行|お願いします)$/,
+  cancel: /^(?:キャンセル|やめて|やめる|いいえ|どれでもない)$/,
+  // Written without spaces, so the particle after a date ("に", "まで") goes with it
+  dates: {
+    relativeOffset: /(?<amount>\d+)(?<unit>分|時間|日|週間)後(?:に|まで)?/,
+    numbers: {},
+    units: { 分: 'minute', 時間: 'hour', 日: 'day', 週間: 'week' },
+    clockTimes: [
+      /(?<meridiem>午前|午後)?(?<hour>\d{1,2})時(?!間)(?:(?<minutes>\d{1,2})分)?(?:に|まで)?/,
+      /(?<hour>\d{1,2}):(?<minutes>\d{2})(?:に|まで)?/
+    ],
+    afternoon: /午後/,
+    namedTime: /(?<time>正午|真夜中)(?:に|まで)?/,
+    dayPart: /(?<time>今朝|朝|昼|夕方|今夜|今晩|夜)(?:に|まで)?/,
+    times: { 正午: 12, 真夜中: 24, 今朝: 9, 朝: 9, 昼: 12, 夕方: 18, 今夜: 20, 今晩: 20, 夜: 20 },
+    relativeDay: /(?<day>今日|明後日|明日|あさって|あした)(?:の|に|まで)?/,
+    days: { 今日: 0, 明日: 1, あした: 1, 明後日: 2, あさって: 2 },
+    weekday: /(?:(?:今週|来週)の?)?(?<weekday>[日月火水木金土])曜(?:日)?(?:に|まで)?/,
+    nextWeekday: /来週/,
+    weekdays: ['日', '月', '火', '水', '木', '金', '土'],
+    monthDays: [/(?<month>\d{1,2})月(?<day>\d{1,2})日(?:に|まで)?/],
+    months: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'],
+    nextWeek: /来週(?:に|まで)?/,
+    nextMonth: /来月(?:に|まで)?/
+  }
+};
+
+const GRAMMARS: Record<string, CommandGrammar> = { en, es, fr, de, pt, ja };
+
+export const SUPPORTED_GRAMMAR_LANGUAGES = Object.keys(GRAMMARS);
+
+/**
+ * Maps a BCP 47 tag such as "es-MX" or "pt-BR" to the grammar it uses, falling
+ * back to English for languages without their own grammar yet.
+ */
+export const getGrammarLanguage = (language: string = 'en-US'): string => {
+  const base = language.toLowerCase().split('-')[0];
+  return base in GRAMMARS ? base : 'en';
+};
+
+export const getGrammar = (language: string = 'en-US'): CommandGrammar => {
+  return GRAMMARS[getGrammarLanguage(language)];
+};
+
+// Recognition languages by their spoken names in each command language; the first name is for replies
+const LANGUAGE_NAMES: Record<string, string[]> = {
+  'en-US': ['english', 'american english', 'inglés', 'anglais', 'englisch', 'inglês', '英語'],
+  'en-GB': ['british english', 'uk english'],
+  'es-ES': ['spanish', 'español', 'castellano', 'espagnol', 'spanisch', 'espanhol', 'スペイン語'],
+  'fr-FR': ['french', 'francés', 'français', 'französisch', 'francês', 'フランス語'],
+  'de-DE': ['german', 'alemán', 'allemand', 'deutsch', 'alemão', 'ドイツ語'],
+  'it-IT': ['italian', 'italiano', 'italien', 'italienisch', 'イタリア語'],
+  'pt-BR': ['portuguese', 'portugués', 'portugais', 'portugiesisch', 'português', 'ポルトガル語'],
+  'ja-JP': ['japanese', 'japonés', 'japonais', 'japanisch', 'japonês', '日本語'],
+  'ko-KR': ['korean', 'coreano', 'coréen', 'koreanisch', '韓国語'],
+  'zh-CN': ['chinese', 'mandarin', 'chino', 'chinois', 'chinesisch', 'chinês', '中国語'],
+  'hi-IN': ['hindi'],
+  'ar-SA': ['arabic', 'árabe', 'arabe', 'arabisch', 'アラビア語'],
+  'ru-RU': ['russian', 'ruso', 'russe', 'russisch', 'russo', 'ロシア語']
+};
+
+// Alternation of every spoken language name, for patterns like "switch to spanish"
+export const LANGUAGE_NAME_PATTERN = Object.values(LANGUAGE_NAMES)
+  .flat()
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+export const findLanguageByName = (name: string): string | undefined => {
+  const spoken = name.toLowerCase().trim();
+  return Object.keys(LANGUAGE_NAMES).find(code => LANGUAGE_NAMES[code].includes(spoken));
+};
+
+export const getLanguageName = (code: string): string => {
+  const name = LANGUAGE_NAMES[code]?.[0] ?? code;
+  return name.replace(/(^|\s)\S/g, letter => letter.toUpperCase());
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { scoreTodoMatch, findBestMatch, normalizeText } from './matching';
+import { Todo } from '../types';
+
+const todo = (text: string): Todo => ({
+  id: text,
+  text,
+  completed: false,
+  priority: 'medium',
+  createdAt: new Date(2025, 0, 1)
+});
+
+describe('normalizeText', () => {
+  it('drops accents and punctuation but keeps letters of every script', () => {
+    expect(normalizeText('Café, please!')).toBe('cafe please');
+    expect(normalizeText('Straße')).toBe('straße');
+    expect(normalizeText('牛乳を買う。')).toBe('牛乳を買う');
+  });
+});
+
+describe('scoreTodoMatch', () => {
+  it('gives an exact match full marks', () => {
+    expect(scoreTodoMatch('Buy groceries', todo('buy groceries'))).toBe(1);
+    expect(scoreTodoMatch('牛乳を買う', todo('牛乳を買う'))).toBe(1);
+  });
+
+  it('matches misheard and partial names', () => {
+    expect(scoreTodoMatch('by groceries', todo('buy groceries'))).toBeGreaterThan(0.6);
+    expect(scoreTodoMatch('groceries', todo('buy groceries'))).toBeGreaterThan(0.6);
+    expect(scoreTodoMatch('牛乳', todo('牛乳を買う'))).toBeGreaterThan(0.6);
+  });
+
+  it('does not match unrelated tasks', () => {
+    expect(scoreTodoMatch('call mom', todo('buy groceries'))).toBeLessThan(0.6);
+    expect(scoreTodoMatch('牛乳', todo('卵を買う'))).toBeLessThan(0.6);
+    expect(scoreTodoMatch('2', todo('3'))).toBeLessThan(0.6);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('picks the Japanese task named', () => {
+    const todos = [todo('卵を買う'), todo('牛乳を買う')];
+    expect(findBestMatch('牛乳を買う', todos).match?.text).toBe('牛乳を買う');
+  });
+
+  it('returns tied candidates to ask about', () => {
+    const todos = [todo('call mom'), todo('call dad'), todo('buy milk')];
+    expect(findBestMatch('call', todos).candidates.map(candidate => candidate.text)).toEqual(['call mom', 'call dad']);
+  });
+});
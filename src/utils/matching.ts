@@ -0,0 +1,169 @@
+import { Todo } from '../types';
+
+// Ranked fuzzy matching of spoken task references against the todo list
+
+export interface TodoMatch {
+  todo: Todo;
+  score: number;
+}
+
+export interface MatchResult {
+  match?: Todo;
+  candidates: Todo[];
+}
+
+const MIN_SCORE = 0.6;
+// Scores closer than this to the best match count as a tie
+const TIE_MARGIN = 0.15;
+const MAX_CANDIDATES = 3;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'my', 'to', 'task', 'for', 'of', 'on', 'and', 'with', 'を', 'の', 'は', 'が', 'に']);
+
+// Japanese is written without spaces, so each of these characters counts as a word
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const tokenize = (text: string): string[] => {
+  const tokens = normalizeText(text)
+    .split(' ')
+    .flatMap(token => (CJK_PATTERN.test(token) ? Array.from(token) : [token]))
+    .filter(Boolean);
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+};
+
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6'
+};
+
+/**
+ * Soundex code, so misheard words like "by"/"buy" or "male"/"mail" still match.
+ */
+export const soundex = (word: string): string => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+    if (letter !== 'h' && letter !== 'w') {
+      previous = digit;
+    }
+  }
+
+  return (code + '000').slice(0, 4);
+};
+
+const tokenSimilarity = (queryToken: string, todoToken: string): number => {
+  if (queryToken === todoToken) return 1;
+
+  const longest = Math.max(queryToken.length, todoToken.length);
+  const spelling = 1 - editDistance(queryToken, todoToken) / longest;
+  const code = soundex(queryToken);
+  const phonetic = code && code === soundex(todoToken) ? 0.8 : 0;
+  const prefix = todoToken.startsWith(queryToken) && queryToken.length >= 3 ? 0.85 : 0;
+
+  return Math.max(spelling >= 0.6 ? spelling : 0, phonetic, prefix);
+};
+
+/**
+ * Scores how well a spoken reference describes a todo, from 0 to 1. Every
+ * query word must find a close word in the todo, so extra todo words cost
+ * only a little.
+ */
+export const scoreTodoMatch = (query: string, todo: Pick<Todo, 'text'>): number => {
+  const normalizedQuery = normalizeText(query);
+  const normalizedText = normalizeText(todo.text);
+  if (!normalizedQuery) return 0;
+  if (normalizedQuery === normalizedText) return 1;
+
+  const queryTokens = tokenize(query);
+  const todoTokens = tokenize(todo.text);
+  if (todoTokens.length === 0) return 0;
+
+  const tokenScore = queryTokens.reduce((total, queryToken) => {
+    const best = Math.max(...todoTokens.map(todoToken => tokenSimilarity(queryToken, todoToken)));
+    return total + best;
+  }, 0) / queryTokens.length;
+
+  // Prefer todos that say little beyond the query
+  const coverage = Math.min(queryTokens.length / todoTokens.length, 1);
+  const substringBonus = normalizedText.includes(normalizedQuery) ? 0.05 : 0;
+
+  return Math.min(tokenScore * (0.85 + 0.15 * coverage) + substringBonus, 0.99);
+};
+
+export const rankTodoMatches = (query: string, todos: Todo[]): TodoMatch[] => {
+  return todos
+    .map(todo => ({ todo, score: scoreTodoMatch(query, todo) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks one clear winner, or returns the tied candidates so the caller can
+ * ask which one was meant.
+ */
+export const findBestMatch = (query: string, todos: Todo[]): MatchResult => {
+  const ranked = rankTodoMatches(query, todos);
+  if (ranked.length === 0) {
+    return { candidates: [] };
+  }
+
+  const [best] = ranked;
+  const tied = ranked.filter(match => best.score - match.score < TIE_MARGIN);
+
+  if (tied.length === 1) {
+    return { match: best.todo, candidates: [best.todo] };
+  }
+
+  return { candidates: tied.slice(0, MAX_CANDIDATES).map(match => match.todo) };
+};
+
+// Checklist steps are matched by their text like tasks; the best one wins without asking
+export const findBestStep = <T extends { text: string }>(query: string, steps: T[]): T | undefined => {
+  const [best] = steps
+    .map(step => ({ step, score: scoreTodoMatch(query, step) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  return best?.step;
+};
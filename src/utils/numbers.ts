@@ -0,0 +1,48 @@
+// Spoken number parsing for task references and follow-up answers
+
+const CARDINALS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15, sixteenth: 16,
+  seventeenth: 17, eighteenth: 18, nineteenth: 19, twentieth: 20
+};
+
+// Words speech recognition commonly hears instead of short numbers
+const HOMOPHONES: Record<string, number> = {
+  won: 1, to: 2, too: 2, for: 4, fore: 4, ate: 8
+};
+
+/**
+ * Parses "2", "two", "2nd" or "second" into a number. Returns undefined for
+ * anything else. `localWords` adds words from the current command language.
+ */
+export const parseSpokenNumber = (word: string, localWords: Record<string, number> = {}): number | undefined => {
+  const text = word.toLowerCase().trim();
+
+  const digits = text.match(/^(\d+)(?:st|nd|rd|th)?$/);
+  if (digits) {
+    return parseInt(digits[1], 10);
+  }
+
+  return localWords[text] ?? CARDINALS[text] ?? ORDINALS[text] ?? HOMOPHONES[text];
+};
+
+/**
+ * Reads the answer to a numbered question such as "Did you mean 1: ... or 2: ...?".
+ * Accepts "2", "two", "number two", "the second one" or "option 2".
+ */
+export const parseChoice = (answer: string, optionCount: number): number | undefined => {
+  const text = answer.toLowerCase().trim().replace(/[.!?]+$/, '');
+  const match = text.match(/^(?:(?:number|option|choice|the)\s+)?(\w+)(?:\s+one)?$/);
+  if (!match) return undefined;
+
+  const choice = parseSpokenNumber(match[1]);
+  if (choice === undefined || choice < 1 || choice > optionCount) return undefined;
+
+  return choice - 1;
+};
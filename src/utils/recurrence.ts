@@ -0,0 +1,293 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  endOfDay,
+  format,
+  getDaysInMonth,
+  isBefore,
+  startOfDay
+} from 'date-fns';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { parseSpokenNumber } from './numbers';
+import { hasTimeOfDay } from './dates';
+
+// Repeat schedules for recurring tasks, kept on a task as an iCalendar RRULE string
+
+export interface RecurrenceMatch {
+  rule: RecurrenceRule;
+  phrase: string;
+}
+
+export const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+const UNITS: Record<string, RecurrenceFrequency> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY'
+};
+
+const ADVERBS: Record<string, RecurrenceRule> = {
+  daily: { frequency: 'DAILY', interval: 1 },
+  weekly: { frequency: 'WEEKLY', interval: 1 },
+  fortnightly: { frequency: 'WEEKLY', interval: 2 },
+  biweekly: { frequency: 'WEEKLY', interval: 2 },
+  monthly: { frequency: 'MONTHLY', interval: 1 },
+  yearly: { frequency: 'YEARLY', interval: 1 },
+  annually: { frequency: 'YEARLY', interval: 1 }
+};
+
+const WEEKDAY = `(?:${WEEKDAYS.join('|')})s?`;
+const WEEKDAY_LIST = `${WEEKDAY}(?:(?:,\\s*|\\s+and\\s+|,\\s*and\\s+)${WEEKDAY})*`;
+const ORDINAL = '\\d{1,2}(?:st|nd|rd|th)?|[a-z]+';
+
+const MONTH_DAY_PATTERNS = [
+  new RegExp(`\\b(?:on )?the (${ORDINAL}) of (?:every|each) month\\b`),
+  new RegExp(`\\b(?:every|each) month on the (${ORDINAL})\\b`),
+  new RegExp(`\\bmonthly on the (${ORDINAL})\\b`)
+];
+const WORKDAY_PATTERN = /\b(?:every|each|on) weekdays?\b/;
+const WEEKEND_PATTERN = /\b(?:every|each|on) weekends?\b/;
+const WEEKDAY_LIST_PATTERN = new RegExp(`\\b(?:every|each) (other )?(${WEEKDAY_LIST})\\b`);
+// "on mondays" repeats, "on monday" is a single due date
+const PLURAL_WEEKDAY_PATTERN = new RegExp(`\\bon ((?:${WEEKDAYS.join('|')})s(?:(?:,\\s*|\\s+and\\s+|,\\s*and\\s+)(?:${WEEKDAYS.join('|')})s)*)\\b`);
+const INTERVAL_PATTERN = /\b(?:every|each) (other|\d+|[a-z]+) (day|week|month|year)s?\b/;
+const UNIT_PATTERN = /\b(?:every|each) (day|week|month|year)\b/;
+// "every morning" keeps "morning" for the time of day
+const DAY_PART_PATTERN = /\b(?:every|each) (?=(?:morning|afternoon|evening)\b)/;
+const ADVERB = `(${Object.keys(ADVERBS).join('|')})`;
+const REPEAT_ADVERB_PATTERN = new RegExp(`\\b(?:repeat(?:s|ing)?|recurring) ${ADVERB}\\b`);
+// A bare "weekly" only counts as the last word, so "weekly shop" stays the name of a task
+const BARE_ADVERB_PATTERN = new RegExp(`\\b${ADVERB}$`);
+
+const parseWeekdays = (list: string): number[] => {
+  return WEEKDAYS
+    .map((day, index) => (new RegExp(`\\b${day}`).test(list) ? index : -1))
+    .filter(index => index >= 0);
+};
+
+/**
+ * Finds a repeat schedule such as "every monday", "every other day" or "on
+ * the 1st of every month" in spoken task text. With `bareAdverb` off, a
+ * trailing "weekly" is left alone unless said as "repeat weekly".
+ */
+export const extractRecurrence = (text: string, { bareAdverb = true } = {}): RecurrenceMatch | undefined => {
+  const lowerText = text.toLowerCase().trim();
+
+  for (const pattern of MONTH_DAY_PATTERNS) {
+    const match = lowerText.match(pattern);
+    const day = match ? parseSpokenNumber(match[1]) : undefined;
+    if (match && day !== undefined && day >= 1 && day <= 31) {
+      return { rule: { frequency: 'MONTHLY', interval: 1, byMonthDay: day }, phrase: match[0] };
+    }
+  }
+
+  const workdays = lowerText.match(WORKDAY_PATTERN);
+  if (workdays) {
+    return { rule: { frequency: 'WEEKLY', interval: 1, byDay: WORKDAYS }, phrase: workdays[0] };
+  }
+
+  const weekend = lowerText.match(WEEKEND_PATTERN);
+  if (weekend) {
+    return { rule: { frequency: 'WEEKLY', interval: 1, byDay: [0, 6] }, phrase: weekend[0] };
+  }
+
+  const weekdays = lowerText.match(WEEKDAY_LIST_PATTERN);
+  if (weekdays) {
+    return {
+      rule: { frequency: 'WEEKLY', interval: weekdays[1] ? 2 : 1, byDay: parseWeekdays(weekdays[2]) },
+      phrase: weekdays[0]
+    };
+  }
+
+  const pluralWeekdays = lowerText.match(PLURAL_WEEKDAY_PATTERN);
+  if (pluralWeekdays) {
+    return { rule: { frequency: 'WEEKLY', interval: 1, byDay: parseWeekdays(pluralWeekdays[1]) }, phrase: pluralWeekdays[0] };
+  }
+
+  const interval = lowerText.match(INTERVAL_PATTERN);
+  const count = interval && (interval[1] === 'other' ? 2 : parseSpokenNumber(interval[1]));
+  if (interval && count && count > 0) {
+    return { rule: { frequency: UNITS[interval[2]], interval: count }, phrase: interval[0] };
+  }
+
+  const unit = lowerText.match(UNIT_PATTERN);
+  if (unit) {
+    return { rule: { frequency: UNITS[unit[1]], interval: 1 }, phrase: unit[0] };
+  }
+
+  const dayPart = lowerText.match(DAY_PART_PATTERN);
+  if (dayPart) {
+    return { rule: { frequency: 'DAILY', interval: 1 }, phrase: dayPart[0] };
+  }
+
+  const adverb = lowerText.match(REPEAT_ADVERB_PATTERN) ?? (bareAdverb ? lowerText.match(BARE_ADVERB_PATTERN) : null);
+  if (adverb) {
+    return { rule: { ...ADVERBS[adverb[1]] }, phrase: adverb[0] };
+  }
+
+  return undefined;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => RRULE_DAYS[day]).join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  return parts.join(';');
+};
+
+/**
+ * Reads the subset of RRULE this app writes: FREQ, INTERVAL, BYDAY and
+ * BYMONTHDAY. Returns undefined for anything without a known FREQ.
+ */
+export const parseRRule = (rrule: string): RecurrenceRule | undefined => {
+  const fields = rrule
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .reduce<Record<string, string>>((result, part) => {
+      const [key, value] = part.split('=');
+      if (key && value) result[key.toUpperCase()] = value.toUpperCase();
+      return result;
+    }, {});
+
+  const frequency = fields.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return undefined;
+
+  const interval = parseInt(fields.INTERVAL ?? '1', 10);
+  // BYDAY may carry a position such as "1MO"; only the weekday is kept
+  const byDay = fields.BYDAY?.split(',')
+    .map(code => RRULE_DAYS.indexOf(code.slice(-2)))
+    .filter(day => day >= 0);
+  const byMonthDay = parseInt(fields.BYMONTHDAY ?? '', 10);
+
+  return {
+    frequency,
+    interval: interval > 0 ? interval : 1,
+    byDay: byDay?.length ? byDay : undefined,
+    byMonthDay: byMonthDay >= 1 && byMonthDay <= 31 ? byMonthDay : undefined
+  };
+};
+
+const joinWords = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+const ordinal = (day: number): string => format(new Date(2000, 0, day), 'do');
+
+const every = (interval: number, unit: string): string => {
+  if (interval === 1) return `every ${unit}`;
+  if (interval === 2) return `every other ${unit}`;
+  return `every ${interval} ${unit}s`;
+};
+
+/**
+ * Spoken and on-screen form of a rule, e.g. "every Monday and Thursday",
+ * "every other day" or "on the 1st of every month".
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return every(rule.interval, 'day');
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return every(rule.interval, 'week');
+      const isWorkdays = rule.byDay.length === WORKDAYS.length && WORKDAYS.every(day => rule.byDay!.includes(day));
+      // Listed from Monday, as weeks start in RRULE
+      const names = [...rule.byDay].sort((a, b) => (a + 6) % 7 - (b + 6) % 7).map(day => capitalize(WEEKDAYS[day]));
+      if (rule.interval <= 2) return every(rule.interval, isWorkdays ? 'weekday' : joinWords(names));
+      return `${every(rule.interval, 'week')} on ${isWorkdays ? 'weekdays' : joinWords(names)}`;
+    }
+    case 'MONTHLY':
+      if (!rule.byMonthDay) return every(rule.interval, 'month');
+      return rule.interval === 1
+        ? `on the ${ordinal(rule.byMonthDay)} of every month`
+        : `${every(rule.interval, 'month')} on the ${ordinal(rule.byMonthDay)}`;
+    default:
+      return every(rule.interval, 'year');
+  }
+};
+
+const matchesDay = (rule: RecurrenceRule, date: Date): boolean => {
+  if (rule.frequency === 'WEEKLY' && rule.byDay?.length) {
+    return rule.byDay.includes(date.getDay());
+  }
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) {
+    return date.getDate() === Math.min(rule.byMonthDay, getDaysInMonth(date));
+  }
+  return true;
+};
+
+const withTimeOf = (day: Date, time: Date): Date => {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+};
+
+/**
+ * When a new recurring task is first due: the first matching day from today,
+ * at the time that was said with it, if any.
+ */
+export const getFirstOccurrence = (rule: RecurrenceRule, dueDate?: Date, now: Date = new Date()): Date => {
+  // Without fixed days the schedule starts whenever the task is due, e.g. "every week from friday"
+  if (!rule.byDay?.length && !rule.byMonthDay) {
+    return dueDate ?? endOfDay(now);
+  }
+
+  const time = dueDate && hasTimeOfDay(dueDate) ? dueDate : endOfDay(now);
+  for (let offset = 0; offset <= 366; offset++) {
+    const day = addDays(startOfDay(now), offset);
+    const date = withTimeOf(day, time);
+    if (matchesDay(rule, day) && !isBefore(date, now)) {
+      return date;
+    }
+  }
+
+  return dueDate ?? endOfDay(now);
+};
+
+const advance = (rule: RecurrenceRule, date: Date): Date => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addDays(date, rule.interval);
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return addDays(date, rule.interval * 7);
+      // Weeks start on Monday, as in RRULE; skipped weeks only apply after the last day of a week
+      const position = (day: number) => (day + 6) % 7;
+      for (let offset = 1; offset <= 7; offset++) {
+        const next = addDays(date, offset);
+        if (rule.byDay.includes(next.getDay())) {
+          const wraps = position(next.getDay()) <= position(date.getDay());
+          return wraps ? addDays(next, (rule.interval - 1) * 7) : next;
+        }
+      }
+      return addDays(date, rule.interval * 7);
+    }
+    case 'MONTHLY': {
+      if (!rule.byMonthDay) return addMonths(date, rule.interval);
+      const month = addMonths(new Date(date.getFullYear(), date.getMonth(), 1), rule.interval);
+      const day = new Date(month.getFullYear(), month.getMonth(), Math.min(rule.byMonthDay, getDaysInMonth(month)));
+      return withTimeOf(day, date);
+    }
+    default:
+      return addYears(date, rule.interval);
+  }
+};
+
+/**
+ * The due date of the instance after `from`, skipping any that are already
+ * in the past, so a chore completed late is next due in the future.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, from: Date, now: Date = new Date()): Date => {
+  let next = advance(rule, from);
+  for (let i = 0; i < 1000 && isBefore(next, startOfDay(now)); i++) {
+    next = advance(rule, next);
+  }
+  return next;
+};
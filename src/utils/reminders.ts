@@ -0,0 +1,111 @@
+import { addHours, addMinutes, endOfDay, isBefore, min, setHours, startOfDay } from 'date-fns';
+import { Todo } from '../types';
+import { hasTimeOfDay } from './dates';
+
+export const SNOOZE_MINUTES = 10;
+
+// Hour a reminder goes off when only a day was said, e.g. "remind me tomorrow to call mom"
+const MORNING_HOUR = 9;
+
+// setTimeout overflows past about 24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+// Buttons on a reminder notification; the service worker passes the chosen one back to the app
+export type ReminderAction = 'open' | 'snooze' | 'complete';
+
+export interface ReminderActionMessage {
+  type: 'reminder-action';
+  action: ReminderAction;
+  todoId: string;
+}
+
+/**
+ * When to remind about a due date: at its time of day, or in the morning when
+ * only a day was given (within the hour if that morning has already passed).
+ */
+export const getReminderTime = (dueDate: Date, now: Date = new Date()): Date => {
+  if (hasTimeOfDay(dueDate)) return dueDate;
+
+  const morning = setHours(startOfDay(dueDate), MORNING_HOUR);
+  return isBefore(morning, now) ? min([addHours(now, 1), endOfDay(dueDate)]) : morning;
+};
+
+export const getSnoozeTime = (now: Date = new Date()): Date => addMinutes(now, SNOOZE_MINUTES);
+
+export const isReminderDue = (todo: Todo, now: Date = new Date()): boolean => {
+  return !todo.completed && !!todo.reminderAt && !isBefore(now, todo.reminderAt);
+};
+
+// Milliseconds until the next reminder goes off, or undefined when none are set
+export const getNextReminderDelay = (todos: Todo[], now: Date = new Date()): number | undefined => {
+  const upcoming = todos
+    .filter(todo => !todo.completed && todo.reminderAt && isBefore(now, todo.reminderAt))
+    .map(todo => todo.reminderAt!.getTime() - now.getTime());
+
+  return upcoming.length > 0 ? Math.min(Math.min(...upcoming), MAX_TIMER_DELAY) : undefined;
+};
+
+export const getReminderPermission = (): ReminderPermission => {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+};
+
+export const requestReminderPermission = async (): Promise<ReminderPermission> => {
+  if (!('Notification' in window)) return 'unsupported';
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return Notification.permission;
+  }
+};
+
+/**
+ * Shows a reminder through the service worker so it can carry snooze and
+ * complete buttons. Returns false when it could not be shown.
+ */
+export const showReminderNotification = async (todo: Todo): Promise<boolean> => {
+  if (getReminderPermission() !== 'granted' || !('serviceWorker' in navigator)) return false;
+
+  try {
+    // `ready` never settles without a service worker, e.g. in development or after a failed registration
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration) return false;
+
+    // `actions` is not in the DOM typings yet
+    const options: NotificationOptions & { actions: { action: ReminderAction; title: string }[] } = {
+      body: todo.text,
+      tag: `reminder-${todo.id}`,
+      requireInteraction: true,
+      data: { todoId: todo.id },
+      actions: [
+        { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+        { action: 'complete', title: 'Complete' }
+      ]
+    };
+    await registration.showNotification('Reminder', options);
+    return true;
+  } catch (error) {
+    console.error('Failed to show reminder:', error);
+    return false;
+  }
+};
+
+export const isReminderActionMessage = (data: unknown): data is ReminderActionMessage => {
+  return typeof data === 'object' && data !== null && (data as ReminderActionMessage).type === 'reminder-action';
+};
+
+/**
+ * A notification button pressed while the app was closed opens it with
+ * ?reminder=<action>&task=<id>.
+ */
+export const parseReminderLink = (search: string): ReminderActionMessage | undefined => {
+  const params = new URLSearchParams(search);
+  const action = params.get('reminder');
+  const todoId = params.get('task');
+
+  if (!todoId || (action !== 'open' && action !== 'snooze' && action !== 'complete')) return undefined;
+  return { type: 'reminder-action', action, todoId };
+};
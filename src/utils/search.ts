@@ -0,0 +1,70 @@
+import { Todo } from '../types';
+
+// Full-text search over tasks, ignoring case and accents so "cafe" finds "Café"
+
+export type TextRange = [start: number, end: number];
+
+// Folds each character on its own, so positions in the folded text map back to the original
+const foldText = (text: string): { folded: string; positions: number[] } => {
+  let folded = '';
+  const positions: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const piece = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    folded += piece;
+    positions.push(...Array.from(piece, () => i));
+  }
+
+  return { folded, positions };
+};
+
+const getSearchTerms = (query: string): string[] => {
+  return foldText(query).folded.split(/\s+/).filter(Boolean);
+};
+
+const getSearchableText = (todo: Todo): string => {
+  return [todo.text, todo.category, todo.notes].filter(Boolean).join('\n');
+};
+
+// Every word of the query has to appear somewhere in the task, its category or its notes
+export const matchesSearch = (todo: Todo, query: string): boolean => {
+  const terms = getSearchTerms(query);
+  const { folded } = foldText(getSearchableText(todo));
+  return terms.every(term => folded.includes(term));
+};
+
+export const searchTodos = (todos: Todo[], query?: string): Todo[] => {
+  return query?.trim() ? todos.filter(todo => matchesSearch(todo, query)) : todos;
+};
+
+// Where the words of the query appear in `text`, sorted and merged for highlighting
+export const findSearchRanges = (text: string, query?: string): TextRange[] => {
+  const terms = query ? getSearchTerms(query) : [];
+  if (terms.length === 0) return [];
+
+  const { folded, positions } = foldText(text);
+  const ranges: TextRange[] = [];
+  terms.forEach(term => {
+    for (let at = folded.indexOf(term); at >= 0; at = folded.indexOf(term, at + term.length)) {
+      ranges.push([positions[at], positions[at + term.length - 1] + 1]);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+// The first line of the notes that matches, so a search hit in long notes is visible in the list
+export const getNotesPreview = (notes: string, query?: string): string => {
+  const lines = notes.split('\n').filter(line => line.trim());
+  return lines.find(line => findSearchRanges(line, query).length > 0) ?? lines[0] ?? '';
+};
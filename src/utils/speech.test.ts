@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { fillMissingSlot, parseVoiceCommands } from './speech';
+
+const parse = (transcript: string, language?: string) =>
+  parseVoiceCommands(transcript, language).map(({ action, text, index }) => ({ action, text, index }));
+
+describe('parseVoiceCommands', () => {
+  it('splits a spoken list into one add per item', () => {
+    expect(parse('add milk eggs and bread')).toEqual([
+      { action: 'add', text: 'milk eggs', index: undefined },
+      { action: 'add', text: 'bread', index: undefined }
+    ]);
+    expect(parse('add milk, eggs and bread').map(command => command.text)).toEqual(['milk', 'eggs', 'bread']);
+  });
+
+  it('splits a list on the conjunction of the language', () => {
+    expect(parse('añadir leche y pan', 'es-ES').map(command => command.text)).toEqual(['leche', 'pan']);
+    expect(parse('ajoute du lait et du pain', 'fr-FR').map(command => command.text)).toEqual(['du lait', 'du pain']);
+  });
+
+  it('shares details said once across the list', () => {
+    const commands = parseVoiceCommands('add milk and bread tomorrow');
+    expect(commands).toHaveLength(2);
+    expect(commands[1].dueDate).toEqual(commands[0].dueDate);
+  });
+
+  it('splits separate commands in one sentence', () => {
+    expect(parse('complete task 1 and delete task 3')).toEqual([
+      { action: 'complete', text: undefined, index: 0 },
+      { action: 'delete', text: undefined, index: 2 }
+    ]);
+    expect(parse('complete task 1 and undo that').map(command => command.action)).toEqual(['complete', 'undo']);
+    expect(parse('add milk and show completed').map(command => command.action)).toEqual(['add', 'filter']);
+  });
+});
+
+describe('reordering', () => {
+  const placement = (transcript: string, language?: string) => {
+    const [{ action, placement, anchor }] = parseVoiceCommands(transcript, language);
+    return { action, placement, anchor: anchor?.text };
+  };
+
+  it('moves a task one place up or down', () => {
+    expect(placement('move task 2 up')).toEqual({ action: 'reorder', placement: 'up', anchor: undefined });
+    expect(placement('move laundry down')).toEqual({ action: 'reorder', placement: 'down', anchor: undefined });
+    expect(placement('baja la tarea 2', 'es-ES').placement).toBe('down');
+    expect(placement('baja la prioridad de la tarea 2', 'es-ES').action).toBe('set_priority');
+  });
+
+  it('reads "の上に" as above another task in Japanese', () => {
+    expect(placement('牛乳を洗濯の上に移動して', 'ja-JP')).toEqual({ action: 'reorder', placement: 'before', anchor: '洗濯' });
+    expect(placement('牛乳を洗濯の下に移動して', 'ja-JP')).toEqual({ action: 'reorder', placement: 'after', anchor: '洗濯' });
+    expect(placement('牛乳を一番上に移動して', 'ja-JP').placement).toBe('top');
+  });
+});
+
+describe('localized commands', () => {
+  it('only reads help, summary and bulk add when they are the whole command', () => {
+    expect(parse('añadir revisar el estado del coche', 'es-ES').map(command => command.action)).toEqual(['add']);
+    expect(parse('añadir varios huevos', 'es-ES').map(command => command.action)).toEqual(['add']);
+    expect(parse('add check the status of the car').map(command => command.action)).toEqual(['add']);
+    expect(parse('estado', 'es-ES')[0].action).toBe('summary');
+    expect(parse('añadir varias tareas', 'es-ES')[0].action).toBe('bulk_add');
+    expect(parse('hilfe', 'de-DE')[0].action).toBe('help');
+    expect(parse('show help')[0].action).toBe('help');
+  });
+
+  it('takes the due date out of the task text', () => {
+    const [command] = parseVoiceCommands('añadir llamar a mamá mañana', 'es-ES');
+    expect(command.text).toBe('llamar a mamá');
+    expect(command.dueDate).toBeDefined();
+  });
+
+  it('completes a Japanese task by name', () => {
+    expect(parse('牛乳を買うを完了して', 'ja-JP')).toEqual([{ action: 'complete', text: '牛乳を買う', index: undefined }]);
+  });
+});
+
+describe('reminders', () => {
+  it('reads the time of a reminder in each command language', () => {
+    const reminders = [
+      parseVoiceCommands('recuérdame a las 6 que llame a mamá', 'es-ES')[0],
+      parseVoiceCommands('rappelle-moi demain de appeler maman', 'fr-FR')[0],
+      parseVoiceCommands('me lembre amanhã de ligar para a mãe', 'pt-BR')[0]
+    ];
+    expect(reminders.map(command => command.text)).toEqual(['llame a mamá', 'appeler maman', 'ligar para a mãe']);
+    reminders.forEach(command => {
+      expect(command.action).toBe('remind');
+      expect(command.reminderAt).toBeDefined();
+      expect(command.missing).toBeUndefined();
+    });
+  });
+
+  it('fills the time from a follow-up answer', () => {
+    const [command] = parseVoiceCommands('recuérdame que llame a mamá', 'es-ES');
+    expect(command.missing).toEqual(['reminder']);
+    expect(fillMissingSlot(command, 'mañana a las 6', 'es-ES').missing).toBeUndefined();
+    expect(fillMissingSlot(command, 'cuando sea', 'es-ES').missing).toEqual(['reminder']);
+  });
+});
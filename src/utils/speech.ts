@@ -1,16 +1,24 @@
-import { VoiceCommand, Todo } from '../types';
+import { VoiceCommand, Todo, CommandFeedback, CommandSlot, TaskQuery, SortMode } from '../types';
 import { VoiceHaptics, MobileUtils } from './haptic';
+import { extractDueDate, stripDueDate, extractDueWindow, describeDueDate } from './dates';
+import { CommandGrammar, getGrammar, getGrammarLanguage, findLanguageByName } from './grammars';
+import { COMMANDS, CommandDefinition, localizePatterns, startsCommand } from './commands';
+import { parseSpokenNumber } from './numbers';
+import { normalizeText, editDistance } from './matching';
+import { extractRecurrence, formatRRule, getFirstOccurrence } from './recurrence';
+import { getReminderTime } from './reminders';
 
 export const checkSpeechSupport = (): boolean => {
   return 'speechSynthesis' in window && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
 };
 
-export const speak = (text: string, rate: number = 1.0): void => {
-  if (!('speechSynthesis' in window)) return;
+// Resolves once the utterance has finished, so callers can wait before listening again
+export const speak = (text: string, rate: number = 1.0, pitch: number = 1.0): Promise<void> => {
+  if (!('speechSynthesis' in window)) return Promise.resolve();
   
   const utterance = new SpeechSynthesisUtterance(text);
   utterance.rate = rate;
-  utterance.pitch = 1;
+  utterance.pitch = pitch;
   utterance.volume = 0.8;
   
   const voices = speechSynthesis.getVoices();
@@ -24,124 +32,354 @@ export const speak = (text: string, rate: number = 1.0): void => {
     utterance.voice = preferredVoice;
   }
   
-  speechSynthesis.speak(utterance);
+  return new Promise(resolve => {
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
 };
 
-export const parseVoiceCommand = (transcript: string): VoiceCommand => {
-  const text = transcript.toLowerCase().trim();
+/**
+ * Splits a transcript such as "complete task 1 and delete task 3" into
+ * clauses. A separator only starts a new clause when a command verb follows.
+ */
+const splitClauses = (text: string, grammar: CommandGrammar, language: string): string[] => {
+  const [first, ...rest] = text.split(grammar.clauseSeparator);
+  const clauses = [first];
   
-  // Mobile-specific voice commands
-  const mobileCommands = parseMobileCommands(text);
-  if (mobileCommands) {
-    return mobileCommands;
+  for (let i = 0; i < rest.length; i += 2) {
+    const separator = rest[i];
+    const part = rest[i + 1];
+    // "add bread and make pizza" stays with the add: "make pizza" is not a command
+    if (startsCommand(part, language) && parseVoiceCommand(part, language).action !== 'unknown') {
+      clauses.push(part);
+    } else {
+      clauses[clauses.length - 1] += separator + part;
+    }
   }
   
-  // Add task commands
-  const addPatterns = [
-    /^add (.+)$/,
-    /^create (.+)$/,
-    /^new (.+)$/,
-    /^todo (.+)$/,
-    /^remind me to (.+)$/,
-    /^i need to (.+)$/,
-    // Mobile-friendly variations
-    /^hey add (.+)$/,
-    /^okay add (.+)$/,
-    /^please add (.+)$/,
-    /^can you add (.+)$/,
-  ];
+  return clauses.filter(clause => clause.trim());
+};
+
+// "add milk, eggs and bread" becomes three adds sharing priority, category and due date.
+// Speech rarely comes with commas, so "and" on its own splits the list too.
+const splitAddList = (command: VoiceCommand, grammar: CommandGrammar): VoiceCommand[] => {
+  if (command.action !== 'add' || !command.text) {
+    return [command];
+  }
   
-  for (const pattern of addPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const taskText = match[1];
-      const priority = extractPriority(taskText);
-      const category = extractCategory(taskText);
-      const cleanText = cleanTaskText(taskText);
-      
-      return {
-        action: 'add',
-        text: cleanText,
-        priority,
-        category
-      };
-    }
+  return command.text!
+    .split(grammar.listSeparator)
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => ({ ...command, text: item }));
+};
+
+export const parseVoiceCommands = (transcript: string, language: string = 'en-US'): VoiceCommand[] => {
+  const grammar = getGrammar(language);
+  const text = transcript.toLowerCase().trim().replace(/[.!?。]+$/, '');
+  
+  return splitClauses(text, grammar, language)
+    .map(clause => parseVoiceCommand(clause, language))
+    .flatMap(command => splitAddList(command, grammar));
+};
+
+const PLACEMENTS: Record<string, VoiceCommand['placement']> = {
+  top: 'top',
+  start: 'top',
+  beginning: 'top',
+  bottom: 'bottom',
+  end: 'bottom',
+  above: 'before',
+  before: 'before',
+  below: 'after',
+  after: 'after',
+  arriba: 'top',
+  principio: 'top',
+  inicio: 'top',
+  abajo: 'bottom',
+  final: 'bottom',
+  'antes de': 'before',
+  'encima de': 'before',
+  'después de': 'after',
+  'debajo de': 'after',
+  haut: 'top',
+  début: 'top',
+  bas: 'bottom',
+  fin: 'bottom',
+  avant: 'before',
+  'au-dessus de': 'before',
+  après: 'after',
+  'en dessous de': 'after',
+  sous: 'after',
+  oben: 'top',
+  anfang: 'top',
+  unten: 'bottom',
+  ende: 'bottom',
+  vor: 'before',
+  über: 'before',
+  hinter: 'after',
+  unter: 'after',
+  topo: 'top',
+  cima: 'top',
+  início: 'top',
+  começo: 'top',
+  baixo: 'bottom',
+  fim: 'bottom',
+  'acima de': 'before',
+  'depois de': 'after',
+  'abaixo de': 'after',
+  上: 'top',
+  先頭: 'top',
+  下: 'bottom',
+  最後: 'bottom',
+  // "の上に" is above another task, not the top of the list
+  の上: 'before',
+  の前: 'before',
+  の下: 'after',
+  の後: 'after',
+  の後ろ: 'after'
+};
+
+// Checked in order, so "oldest first" is not read as the creation order and "date created" not as the due date
+const SORT_WORDS: [RegExp, SortMode][] = [
+  [/(?:^|\s)(?:manual(?:ly)?|my (?:own )?order|custom|mi orden|personalizado|manuel|mon ordre|manuell|meine reihenfolge|minha ordem)(?=\s|$)|手動|自分の/, 'manual'],
+  [/(?:^|\s)(?:oldest|earliest|antiguas?|anciennes?|älteste[n]?|antigas?)(?=\s|$)|古い/, 'oldest'],
+  [/(?:^|\s)(?:newest|latest|recent|created|creation|added|recientes?|creación|récentes?|création|neueste[n]?|erstellt|recentes?|criação)(?=\s|$)|新しい|作成/, 'newest'],
+  [/(?:^|\s)(?:priority|importance|urgency|prioridad|importancia|urgencia|priorité|urgence|priorität|wichtigkeit|dringlichkeit|prioridade|importância|urgência)(?=\s|$)|優先度|重要度/, 'priority'],
+  [/(?:^|\s)(?:due|deadline|date|fecha|vencimiento|plazo|échéance|datum|fälligkeit|frist|data|prazo)(?=\s|$)|期限|締め切り|日付/, 'due'],
+  [/(?:^|\s)(?:alphabetical(?:ly)?|a to z|a-z|name|title|alfabético|alfabéticamente|nombre|alphabétique|nom|titre|alphabetisch|titel|alfabética|alfabeticamente|nome|título)(?=\s|$)|名前|五十音|あいうえお/, 'alphabetical']
+];
+
+// Punctuation said aloud while dictating a note
+const SPOKEN_PUNCTUATION: [RegExp, string][] = [
+  [/\s*\bnew paragraph\b\s*/g, '\n\n'],
+  [/\s*\b(?:new line|next line)\b\s*/g, '\n'],
+  [/\s*\b(?:period|full stop)\b/g, '.'],
+  [/\s*\bquestion mark\b/g, '?'],
+  [/\s*\bexclamation (?:mark|point)\b/g, '!'],
+  [/\s*\bsemicolon\b/g, ';'],
+  [/\s*\bcolon\b/g, ':'],
+  [/\s*\bcomma\b/g, ',']
+];
+
+/**
+ * Dictated text with punctuation said aloud, e.g. "gate code 4512 comma ring
+ * twice new line park on the street" becomes "Gate code 4512, ring twice" and
+ * "Park on the street" on two lines. Each sentence starts with a capital.
+ */
+export const applySpokenPunctuation = (text: string): string => {
+  return SPOKEN_PUNCTUATION
+    .reduce((result, [pattern, mark]) => result.replace(pattern, mark), text.trim())
+    .replace(/[ \t]+/g, ' ')
+    .replace(/(^|[.!?] |\n)(\p{Ll})/gu, (_, start: string, letter: string) => start + letter.toUpperCase())
+    .trim();
+};
+
+// "task 2", "the second one" and "the last task" become indexes; anything else stays a spoken task name
+const parseTaskReference = (taskRef: string, grammar: CommandGrammar): Pick<VoiceCommand, 'text' | 'index' | 'recent'> => {
+  const reference = taskRef.match(grammar.taskReference);
+  const position = reference ? parseSpokenNumber(reference[1], grammar.numberWords) : undefined;
+  
+  if (grammar.pluralPronoun.test(taskRef)) {
+    return { recent: 'all' };
+  }
+  // "the last one" means the last task talked about, or the bottom of the list if there is none
+  if (grammar.pronoun.test(taskRef)) {
+    return position ? { recent: 'one', index: position > 0 ? position - 1 : position } : { recent: 'one' };
   }
   
-  // Complete task commands
-  const completePatterns = [
-    /^complete (.+)$/,
-    /^done (.+)$/,
-    /^finish (.+)$/,
-    /^mark (.+) as (?:done|complete)$/,
-    /^complete task (\d+)$/,
-    /^done with task (\d+)$/,
-  ];
+  if (position === undefined || position === 0) {
+    return { text: taskRef.replace(grammar.taskPrefix, '') };
+  }
   
-  for (const pattern of completePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const taskRef = match[1];
-      const index = parseInt(taskRef) - 1;
-      
-      return {
-        action: 'complete',
-        text: isNaN(index) ? taskRef : undefined,
-        index: isNaN(index) ? undefined : index
-      };
+  return { index: position > 0 ? position - 1 : position };
+};
+
+const SLOT_PARSERS: Record<CommandSlot, (value: string, grammar: CommandGrammar) => Partial<VoiceCommand>> = {
+  task: (value, grammar) => extractTaskDetails(value, grammar),
+  target: parseTaskReference,
+  // New text for a task is mostly a name, so only a schedule said as "every …" or "repeat …" counts
+  changes: (value, grammar) => {
+    const details = extractTaskDetails(value, grammar, { bareAdverb: false });
+    return {
+      newText: details.text,
+      priority: details.priority,
+      category: details.category,
+      dueDate: details.dueDate,
+      recurrence: details.recurrence
+    };
+  },
+  query: (value, grammar) => ({ query: parseTaskQuery(value, grammar) }),
+  count: (value, grammar) => {
+    const count = parseSpokenNumber(value, grammar.numberWords);
+    return { count: count !== undefined && count > 0 ? count : undefined };
+  },
+  language: value => ({ language: findLanguageByName(value) }),
+  priority: (value, grammar) => ({
+    priority: extractPriority(value, grammar) ?? PRIORITIES.find(level => grammar.priorityLevel[level].test(value))
+  }),
+  category: (value, grammar) => ({ category: extractCategory(value, grammar) ?? parseCategoryName(value, grammar) }),
+  reminder: (value, grammar) => {
+    const match = extractDueDate(value, new Date(), grammar.dates);
+    return { reminderAt: match && getReminderTime(match.date) };
+  },
+  step: value => ({ step: value.trim() }),
+  note: value => ({ note: applySpokenPunctuation(value) }),
+  placement: value => ({ placement: PLACEMENTS[value.trim()] }),
+  anchor: (value, grammar) => ({ anchor: parseTaskReference(value, grammar) }),
+  sort: value => ({ sort: SORT_WORDS.find(([pattern]) => pattern.test(value))?.[1] }),
+  search: value => ({ search: value.trim() })
+};
+
+// Copies only the fields a slot actually filled, so an answer cannot erase a priority said earlier
+const mergeSlot = (command: VoiceCommand, filled: Partial<VoiceCommand>): VoiceCommand => {
+  const merged = { ...command };
+  (Object.keys(filled) as (keyof VoiceCommand)[]).forEach(key => {
+    if (filled[key] !== undefined && filled[key] !== '') {
+      (merged as Record<string, unknown>)[key] = filled[key];
     }
+  });
+  return merged;
+};
+
+// "add urgent" names no task once the priority is taken out
+const isSlotFilled = (command: VoiceCommand, slot: CommandSlot): boolean => {
+  switch (slot) {
+    case 'task':
+      return !!command.text;
+    case 'target':
+      return command.text !== undefined || command.index !== undefined || command.recent !== undefined;
+    case 'language':
+      return !!command.language;
+    case 'priority':
+      return !!command.priority;
+    case 'category':
+      return !!command.category;
+    // "remind me to call mom at 6pm" gives the time with the task
+    case 'reminder':
+      return !!command.reminderAt || !!command.dueDate;
+    case 'step':
+      return !!command.step;
+    case 'note':
+      return !!command.note;
+    case 'placement':
+      return !!command.placement;
+    case 'anchor':
+      return !!command.anchor;
+    case 'sort':
+      return !!command.sort;
+    case 'search':
+      return !!command.search;
+    default:
+      return true;
   }
+};
+
+const fillSlots = (
+  definition: CommandDefinition,
+  slots: CommandSlot[],
+  match: RegExpMatchArray,
+  grammar: CommandGrammar
+): VoiceCommand => {
+  const command = slots.reduce<VoiceCommand>(
+    (result, slot, i) => mergeSlot(result, SLOT_PARSERS[slot](match[i + 1] ?? '', grammar)),
+    { action: definition.action, ...definition.values }
+  );
   
-  // Delete task commands
-  const deletePatterns = [
-    /^delete (.+)$/,
-    /^remove (.+)$/,
-    /^cancel (.+)$/,
-    /^delete task (\d+)$/,
-    /^remove task (\d+)$/,
-  ];
+  const missing = definition.slots.filter(slot => !slots.includes(slot) || !isSlotFilled(command, slot));
   
-  for (const pattern of deletePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const taskRef = match[1];
-      const index = parseInt(taskRef) - 1;
-      
-      return {
-        action: 'delete',
-        text: isNaN(index) ? taskRef : undefined,
-        index: isNaN(index) ? undefined : index
-      };
+  return missing.length > 0 ? { ...command, missing } : command;
+};
+
+export const parseVoiceCommand = (transcript: string, language: string = 'en-US'): VoiceCommand => {
+  const grammar = getGrammar(language);
+  const grammarLanguage = getGrammarLanguage(language);
+  const text = transcript.toLowerCase().trim().replace(grammar.filler, '');
+  
+  for (const definition of COMMANDS) {
+    for (const pattern of localizePatterns(definition.patterns, grammarLanguage)) {
+      const match = text.match(pattern);
+      if (match) {
+        return fillSlots(definition, definition.slots, match, grammar);
+      }
     }
   }
   
-  // Clear all tasks
-  if (text.includes('clear all') || text.includes('delete all') || text.includes('remove all')) {
-    return { action: 'clear' };
+  // Bare verbs such as "add" or "delete" leave slots to ask for
+  for (const definition of COMMANDS) {
+    for (const form of definition.partial ?? []) {
+      for (const pattern of localizePatterns(form.patterns, grammarLanguage)) {
+        const match = text.match(pattern);
+        if (match) {
+          return fillSlots(definition, form.slots, match, grammar);
+        }
+      }
+    }
   }
   
   // Unknown command
   return { action: 'unknown', text: transcript };
 };
 
-const extractPriority = (text: string): Todo['priority'] => {
-  if (text.includes('urgent') || text.includes('high priority') || text.includes('important')) {
+/**
+ * Fills the first missing slot of a command with a follow-up answer, e.g.
+ * "buy milk" after "What should I add?".
+ */
+export const fillMissingSlot = (command: VoiceCommand, answer: string, language: string = 'en-US'): VoiceCommand => {
+  const [slot, ...rest] = command.missing ?? [];
+  if (!slot) return command;
+  
+  const text = answer.toLowerCase().trim().replace(/[.!?。]+$/, '');
+  const merged = mergeSlot(command, SLOT_PARSERS[slot](text, getGrammar(language)));
+  const missing = isSlotFilled(merged, slot) ? rest : [slot, ...rest];
+  
+  return { ...merged, missing: missing.length > 0 ? missing : undefined };
+};
+
+export interface TaskDetails {
+  text: string;
+  priority?: Todo['priority'];
+  category?: string;
+  dueDate?: Date;
+  recurrence?: string;
+}
+
+// Splits spoken task text into the task itself and any priority, category, due date or repeat schedule
+const extractTaskDetails = (taskText: string, grammar: CommandGrammar, options?: { bareAdverb?: boolean }): TaskDetails => {
+  // The schedule goes first so "every monday" is not also read as next monday's due date
+  const recurrence = extractRecurrence(taskText, options);
+  const rest = recurrence ? stripDueDate(taskText, [recurrence.phrase]) : taskText;
+  const dueDate = extractDueDate(rest, new Date(), grammar.dates);
+  
+  return {
+    text: cleanTaskText(stripDueDate(rest, dueDate?.phrases), grammar),
+    priority: extractPriority(taskText, grammar),
+    category: extractCategory(taskText, grammar),
+    dueDate: recurrence ? getFirstOccurrence(recurrence.rule, dueDate?.date) : dueDate?.date,
+    recurrence: recurrence && formatRRule(recurrence.rule)
+  };
+};
+
+export const parseTaskDetails = (taskText: string, language: string = 'en-US'): TaskDetails => {
+  return extractTaskDetails(taskText.toLowerCase(), getGrammar(language));
+};
+
+const extractPriority = (text: string, grammar: CommandGrammar): Todo['priority'] | undefined => {
+  if (grammar.priority.high.test(text)) {
     return 'high';
   }
-  if (text.includes('medium priority') || text.includes('normal')) {
+  if (grammar.priority.medium.test(text)) {
     return 'medium';
   }
-  return 'low';
+  if (grammar.priority.low.test(text)) {
+    return 'low';
+  }
+  return undefined;
 };
 
-const extractCategory = (text: string): string | undefined => {
-  const categoryPatterns = [
-    /(?:in|for|under) (\w+) category/,
-    /categorize as (\w+)/,
-    /tag (\w+)/,
-  ];
-  
-  for (const pattern of categoryPatterns) {
+const extractCategory = (text: string, grammar: CommandGrammar): string | undefined => {
+  for (const pattern of grammar.category) {
     const match = text.match(pattern);
     if (match) {
       return match[1];
@@ -151,91 +389,132 @@ const extractCategory = (text: string): string | undefined => {
   return undefined;
 };
 
-const cleanTaskText = (text: string): string => {
-  return text
-    .replace(/\b(urgent|high priority|important|medium priority|normal|low priority)\b/gi, '')
-    .replace(/\b(?:in|for|under) \w+ category\b/gi, '')
-    .replace(/\bcategorize as \w+\b/gi, '')
-    .replace(/\btag \w+\b/gi, '')
+const globally = (pattern: RegExp): RegExp => new RegExp(pattern.source, `${pattern.flags.replace('g', '')}gi`);
+
+/**
+ * Reads the filters of a list query, e.g. "high priority work" or "completed".
+ * Whatever is left after the known words is taken as the category.
+ */
+const parseTaskQuery = (text: string, grammar: CommandGrammar): TaskQuery => {
+  const due = extractDueWindow(text);
+  const status = (['completed', 'active', 'all'] as const).find(word => grammar.status[word].test(text));
+  const fillers = [...Object.values(grammar.priority), ...Object.values(grammar.status), grammar.queryFiller];
+  const rest = fillers
+    .reduce((result, pattern) => result.replace(globally(pattern), ' '), stripDueDate(text, due ? [due.phrase] : []))
+    .replace(/\s{2,}/g, ' ')
     .trim();
+  
+  return {
+    status,
+    priority: extractPriority(text, grammar),
+    category: extractCategory(text, grammar) ?? (rest || undefined),
+    due: due?.window
+  };
 };
 
-// Mobile-specific voice commands
-const parseMobileCommands = (text: string): VoiceCommand | null => {
-  // Quick action commands for mobile
-  if (text.includes('show completed') || text.includes('show done')) {
-    return { action: 'filter', text: 'completed' };
-  }
-  
-  if (text.includes('show active') || text.includes('show pending')) {
-    return { action: 'filter', text: 'active' };
-  }
+const PRIORITIES: Todo['priority'][] = ['high', 'medium', 'low'];
+
+// "the health category" is just "health"
+const parseCategoryName = (text: string, grammar: CommandGrammar): string | undefined => {
+  const name = [grammar.categoryWord, grammar.queryFiller]
+    .reduce((result, pattern) => result.replace(globally(pattern), ' '), text)
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return name || undefined;
+};
+
+const cleanTaskText = (text: string, grammar: CommandGrammar): string => {
+  const patterns = [...Object.values(grammar.priority), ...grammar.category];
   
-  if (text.includes('show all')) {
-    return { action: 'filter', text: 'all' };
-  }
+  return patterns
+    .reduce((result, pattern) => result.replace(globally(pattern), ''), text)
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+};
+
+/**
+ * Checks whether a transcript starts with the wake phrase and returns what was
+ * said after it ('' for the phrase alone), or undefined when it was not said.
+ * Tolerates small mishearings such as "hey voicy" or "hey voice e".
+ */
+export const stripWakePhrase = (transcript: string, wakePhrase: string): string | undefined => {
+  const words = transcript.trim().split(/\s+/);
+  const wake = normalizeText(wakePhrase).split(' ').filter(Boolean);
+  if (wake.length === 0) return undefined;
   
-  // Voice settings commands
-  if (text.includes('enable haptics') || text.includes('turn on vibration')) {
-    return { action: 'setting', text: 'haptics:on' };
-  }
+  const target = wake.join('');
+  const allowed = Math.max(1, Math.floor(target.length / 5));
   
-  if (text.includes('disable haptics') || text.includes('turn off vibration')) {
-    return { action: 'setting', text: 'haptics:off' };
+  // Recognition may split or join words, so try a word more and a word less than the phrase has
+  let best: { length: number; distance: number } | undefined;
+  for (const length of [wake.length + 1, wake.length, wake.length - 1]) {
+    if (length < 1 || length > words.length) continue;
+    const heard = normalizeText(words.slice(0, length).join(' ')).replace(/ /g, '');
+    const distance = editDistance(heard, target);
+    if (distance <= allowed && (!best || distance < best.distance)) {
+      best = { length, distance };
+    }
   }
   
-  // Mobile-friendly help
-  if (text.includes('help') || text.includes('what can you do') || text.includes('commands')) {
-    return { action: 'help' };
+  return best && words.slice(best.length).join(' ').replace(/^[\s,.!?]+/, '');
+};
+
+export const getVoiceCommands = (): string[] => {
+  // Mobile-specific commands only show up on mobile
+  return COMMANDS
+    .filter(command => !command.mobileOnly || MobileUtils.isMobile())
+    .map(command => command.usage);
+};
+
+const joinList = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
+const BATCH_VERBS: Partial<Record<VoiceCommand['action'], string>> = {
+  add: 'Added',
+  complete: 'Completed',
+  delete: 'Deleted',
+  edit: 'Updated'
+};
+
+/**
+ * Combines the feedback of a command batch into one sentence per action,
+ * e.g. "Added 3 tasks: milk, eggs and bread. Deleted task: call mom."
+ */
+export const getBatchSummary = (feedback: CommandFeedback[]): string => {
+  if (feedback.length <= 1) {
+    return feedback[0]?.message ?? '';
   }
   
-  // Quick voice summary
-  if (text.includes('summary') || text.includes('status') || text.includes('how am i doing')) {
-    return { action: 'summary' };
-  }
+  const sentences: string[] = [];
+  const groups = new Map<VoiceCommand['action'], { index: number; tasks: string[] }>();
   
-  // Mobile multitasking
-  if (text.includes('add multiple') || text.includes('bulk add')) {
-    return { action: 'bulk_add' };
-  }
+  feedback.forEach(item => {
+    const verb = BATCH_VERBS[item.action];
+    if (item.taskText && verb) {
+      const group = groups.get(item.action) ?? { index: sentences.push('') - 1, tasks: [] };
+      group.tasks.push(item.taskText);
+      groups.set(item.action, group);
+      sentences[group.index] = group.tasks.length === 1
+        ? `${verb} task: ${group.tasks[0]}`
+        : `${verb} ${group.tasks.length} tasks: ${joinList(group.tasks)}`;
+    } else if (!sentences.includes(item.message)) {
+      sentences.push(item.message);
+    }
+  });
   
-  return null;
+  return sentences.join('. ');
 };
 
-export const getVoiceCommands = (): string[] => {
-  const basicCommands = [
-    "Add [task]",
-    "Create [task]", 
-    "New [task]",
-    "Todo [task]",
-    "Remind me to [task]",
-    "Complete [task]",
-    "Done [task]",
-    "Complete task [number]",
-    "Delete [task]",
-    "Remove [task]",
-    "Delete task [number]",
-    "Clear all",
-    "Delete all"
-  ];
-  
-  // Add mobile-specific commands when on mobile
-  if (MobileUtils.isMobile()) {
-    return [
-      ...basicCommands,
-      "Show completed",
-      "Show active", 
-      "Show all",
-      "Enable haptics",
-      "Disable haptics",
-      "Help",
-      "Summary",
-      "Status",
-      "Add multiple tasks"
-    ];
-  }
-  
-  return basicCommands;
+/**
+ * One page of a spoken task list, e.g. "buy milk, call mom due tomorrow and
+ * pay rent".
+ */
+export const getTaskReadout = (todos: Todo[]): string => {
+  return joinList(todos.map(todo =>
+    todo.dueDate ? `${todo.text} due ${describeDueDate(todo.dueDate)}` : todo.text
+  ));
 };
 
 export const getTaskSummary = (todos: Todo[]): string => {
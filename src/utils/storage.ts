@@ -1,6 +1,9 @@
-import { Todo } from '../types';
+import { Todo, SortMode } from '../types';
+import { SORT_MODES } from './filters';
 
 const STORAGE_KEY = 'voice-todo-app-data';
+const LIST_SORTS_KEY = 'voice-todo-app-sorts';
+const COMMAND_HISTORY_KEY = 'voice-todo-app-command-history';
 
 export const loadTodos = (): Todo[] => {
   try {
@@ -11,7 +14,13 @@ export const loadTodos = (): Todo[] => {
     return parsed.todos?.map((todo: any) => ({
       ...todo,
       createdAt: new Date(todo.createdAt),
-      completedAt: todo.completedAt ? new Date(todo.completedAt) : undefined
+      completedAt: todo.completedAt ? new Date(todo.completedAt) : undefined,
+      dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined,
+      reminderAt: todo.reminderAt ? new Date(todo.reminderAt) : undefined,
+      subtasks: todo.subtasks?.map((subtask: any) => ({
+        ...subtask,
+        completedAt: subtask.completedAt ? new Date(subtask.completedAt) : undefined
+      }))
     })) || [];
   } catch (error) {
     console.error('Failed to load todos from storage:', error);
@@ -37,4 +46,44 @@ export const clearStorage = (): void => {
   } catch (error) {
     console.error('Failed to clear storage:', error);
   }
-};
\ No newline at end of file
+};
+
+// The sort each list was last shown in, keyed by category with '' for all tasks
+export const loadListSorts = (): Record<string, SortMode> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIST_SORTS_KEY) || '{}');
+    return Object.fromEntries(
+      Object.entries(saved).filter((entry): entry is [string, SortMode] => SORT_MODES.includes(entry[1] as SortMode))
+    );
+  } catch (error) {
+    console.error('Failed to load list sorts from storage:', error);
+    return {};
+  }
+};
+
+export const saveListSort = (list: string, sort: SortMode): void => {
+  try {
+    localStorage.setItem(LIST_SORTS_KEY, JSON.stringify({ ...loadListSorts(), [list]: sort }));
+  } catch (error) {
+    console.error('Failed to save list sort to storage:', error);
+  }
+};
+
+// Typed commands, newest first
+export const loadCommandHistory = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COMMAND_HISTORY_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch (error) {
+    console.error('Failed to load command history from storage:', error);
+    return [];
+  }
+};
+
+export const saveCommandHistory = (history: string[]): void => {
+  try {
+    localStorage.setItem(COMMAND_HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save command history to storage:', error);
+  }
+};
@@ -8,7 +8,9 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg}']
+        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // Snooze and complete buttons on reminder notifications
+        importScripts: ['reminder-sw.js']
       },
       manifest: {
         name: 'Voice Todo App',